@@ -1,67 +1,30 @@
 const { Chess } = require('chess.js');
-const levenshtein = require('fast-levenshtein');
+// Generated by scripts/build-lambda-shared.js from lib/pgn/reconstruction.ts
+const { reconstructGame } = require('./shared/reconstruction');
+const { matchNumberedMoves, matchStandaloneMoves } = require('./shared/san');
+const { detectNotationLanguage, toEnglishNotation } = require('./shared/notation');
+const {
+  descriptiveReadings,
+  convertDescriptiveGame,
+  detectNotationSystem,
+  matchDescriptiveMoves
+} = require('./shared/descriptive');
+const { isLongAlgebraic, longAlgebraicReadings, convertLongAlgebraicGame } = require('./shared/long-algebraic');
+const { analyzeTableLayout } = require('./shared/layout');
+const { findTemplate, matchTemplate } = require('./shared/templates');
+const { fromTextract } = require('./shared/blocks');
+const { locateMoveSources } = require('./shared/parser');
 
-/**
- * Chess Validator Module
- * Validates and corrects OCR errors in chess moves using hybrid fuzzy matching:
- * 1. Pattern-based substitutions (fast, handles common OCR errors)
- * 2. Levenshtein distance matching (flexible, catches unknown errors)
- */
+// The OCR page model of Textract blocks, which the shared layout and template code reads
+function pageOf(blocks) {
+  return fromTextract({ Blocks: blocks || [] }).pages[0];
+}
 
 /**
- * Common OCR character confusion mappings
- * Maps common OCR errors to possible correct characters
+ * Chess Validator Module
+ * Validates and corrects OCR errors in chess moves by rebuilding the most plausible
+ * legal game from the whole move list (see reconstructGame in lib/pgn/reconstruction.ts)
  */
-const OCR_SUBSTITUTIONS = {
-  'H': ['4'],           // eH → e4
-  'h': ['4'],           // eh → e4
-  'b': ['6'],           // eb → e6
-  'l': ['1'],           // cl → c1
-  'o': ['0'],           // o-o → 0-0
-  'O': ['0'],           // O-O → 0-0
-  'I': ['1'],           // I → 1
-  'S': ['5'],           // S → 5
-  'Z': ['2'],           // Z → 2
-  'G': ['6'],           // G → 6
-};
-
-/**
- * Generate fuzzy match candidates for a move
- * Creates variations by substituting common OCR confusion characters
- */
-function generateFuzzyMatches(move) {
-  const candidates = new Set([move]); // Always include original
-  
-  // Generate single character substitutions
-  for (let i = 0; i < move.length; i++) {
-    const char = move[i];
-    if (OCR_SUBSTITUTIONS[char]) {
-      for (const replacement of OCR_SUBSTITUTIONS[char]) {
-        const candidate = move.substring(0, i) + replacement + move.substring(i + 1);
-        candidates.add(candidate);
-      }
-    }
-  }
-  
-  // Generate multiple character substitutions (for castling: o-o → 0-0)
-  // Handle common castling patterns
-  const castlingPatterns = [
-    { pattern: /o-o/i, replacement: '0-0' },
-    { pattern: /O-O/g, replacement: '0-0' },
-    { pattern: /0-0-0/g, replacement: '0-0-0' },
-    { pattern: /o-o-o/i, replacement: '0-0-0' },
-    { pattern: /00/g, replacement: '0-0' },
-    { pattern: /000/g, replacement: '0-0-0' },
-  ];
-  
-  for (const { pattern, replacement } of castlingPatterns) {
-    if (pattern.test(move)) {
-      candidates.add(move.replace(pattern, replacement));
-    }
-  }
-  
-  return Array.from(candidates);
-}
 
 /**
  * Extract move notation from a text string (removes move numbers)
@@ -92,151 +55,20 @@ function validateMove(board, moveText) {
       return { valid: true, move: moveNotation, corrected: false };
     }
   } catch (error) {
-    // Move is invalid, will try fuzzy matching
+    // Move is invalid; correctOCRErrors reconstructs the game instead
   }
   
   return { valid: false, move: moveText, error: 'Invalid move' };
 }
 
-/**
- * Find valid move using hybrid fuzzy matching
- * Strategy: 
- * 1. First try pattern-based substitutions (fast, handles common OCR errors)
- * 2. If that fails, use Levenshtein distance to find closest legal move
- * 3. Only accept corrections with distance <= 2 (threshold for safety)
- * 
- * @param {Chess} board - Chess board instance
- * @param {string} invalidMove - Invalid move from OCR
- * @returns {Object} { valid: boolean, move: string, corrected: boolean, original: string, method?: string, distance?: number }
- */
-function fuzzyMatchMove(board, invalidMove) {
-  const originalMove = invalidMove;
-  const moveNotation = extractMoveNotation(invalidMove);
-  
-  // Step 1: Try direct validation first
-  const directResult = validateMove(board, moveNotation);
-  if (directResult.valid) {
-    return {
-      valid: true,
-      move: directResult.move,
-      corrected: false,
-      original: originalMove
-    };
-  }
-  
-  // Step 2: Try pattern-based substitutions (fast, handles known OCR errors)
-  const candidates = generateFuzzyMatches(moveNotation);
-  
-  for (const candidate of candidates) {
-    if (candidate === moveNotation) continue; // Already tried
-    
-    try {
-      // Create a new board instance for testing (preserve original state)
-      const testBoard = new Chess();
-      testBoard.loadPgn(board.pgn() || '');
-      
-      const move = testBoard.move(candidate);
-      if (move) {
-        // Found valid move via pattern matching! Apply it to the original board
-        board.move(candidate);
-        
-        return {
-          valid: true,
-          move: candidate,
-          corrected: true,
-          original: originalMove,
-          correction: `${moveNotation} → ${candidate}`,
-          method: 'pattern-based'
-        };
-      }
-    } catch (error) {
-      // Try next candidate
-      continue;
-    }
-  }
-  
-  // Step 3: Pattern-based failed, try Levenshtein distance matching
-  // Get all legal moves for current position
-  const legalMoves = board.moves();
-  
-  if (legalMoves.length === 0) {
-    // No legal moves available (checkmate/stalemate)
-    return {
-      valid: false,
-      move: moveNotation,
-      corrected: false,
-      original: originalMove,
-      error: 'No legal moves available'
-    };
-  }
-  
-  // Find closest legal move using Levenshtein distance
-  let bestMatch = null;
-  let lowestDistance = 99;
-  
-  // Threshold: Only accept if 1 or 2 characters are wrong
-  // e.g. "eH" (dist 1 to "e4") is good. "QxH7" (dist 3) is too risky.
-  const MAX_DISTANCE_THRESHOLD = 2;
-  
-  for (const validMove of legalMoves) {
-    const dist = levenshtein.get(moveNotation, validMove);
-    
-    // Early exit: if distance is 1, this is the best possible match
-    if (dist === 1) {
-      bestMatch = validMove;
-      lowestDistance = 1;
-      break; // Exit early - no need to check further
-    }
-    
-    // Check if this is the best match within threshold
-    if (dist < lowestDistance && dist <= MAX_DISTANCE_THRESHOLD) {
-      lowestDistance = dist;
-      bestMatch = validMove;
-    }
-  }
-  
-  // Step 4: Apply the best Levenshtein match if found
-  if (bestMatch) {
-    try {
-      // Create a new board instance for testing
-      const testBoard = new Chess();
-      testBoard.loadPgn(board.pgn() || '');
-      
-      const move = testBoard.move(bestMatch);
-      if (move) {
-        // Found valid move via Levenshtein! Apply it to the original board
-        board.move(bestMatch);
-        
-        return {
-          valid: true,
-          move: bestMatch,
-          corrected: true,
-          original: originalMove,
-          correction: `${moveNotation} → ${bestMatch}`,
-          method: 'levenshtein',
-          distance: lowestDistance
-        };
-      }
-    } catch (error) {
-      // Fall through to failure case
-    }
-  }
-  
-  // No valid move found after both pattern-based and Levenshtein matching
-  return {
-    valid: false,
-    move: moveNotation,
-    corrected: false,
-    original: originalMove,
-    error: 'No valid move found after fuzzy matching'
-  };
-}
-
 /**
  * Extract moves from table cells in Textract response
  * Handles both numbered moves ("1. e4 e5") and standalone moves in separate cells
+ * 
+ * @param {Array} blocks - Textract blocks
+ * @param {Object|null} [template] - Score-sheet template whose grid splits the table (lib/pgn/templates.ts)
  */
-function extractMovesFromBlocks(blocks) {
+function extractMovesFromBlocks(blocks, template) {
   const moves = [];
   
   // Debug: Log what blocks we received
@@ -258,10 +90,8 @@ function extractMovesFromBlocks(blocks) {
     }))
   });
   
-  // Pattern 1: Moves with numbers (e.g., "1. e4 e5")
-  const movePatternWithNumber = /(\d+\.?\s*[a-h1-8NBRQKx=+#O-]+\s*[a-h1-8NBRQKx=+#O-]*)/gi;
-  // Pattern 2: Standalone moves (e.g., "e4", "Nf3", "Qe2", "fxe6", "O-O")
-  const movePatternStandalone = /\b([a-h][1-8](?:x[a-h][1-8])?[+#=]?|O-O(?:-O)?|0-0(?:-0)?|[NBRQK][a-h1-8]?x?[a-h][1-8](?:x[a-h][1-8])?[+#=]?|[a-h]x[a-h][1-8][+#=]?)\b/gi;
+  // Move patterns live in ./shared/san: numbered ("1. e4 e5") and standalone
+  // ("e4", "Nf3", "e8=Q", "Nbd7", "O-O"), both returned in canonical SAN
   
   // Extract from CELL blocks (table structure)
   // First try with Text property (may have been populated from relationships in index.js)
@@ -358,16 +188,12 @@ function extractMovesFromBlocks(blocks) {
               const rowText = rowWords.map(w => w.text).join(' ').trim();
               
               // Try numbered pattern
-              const matchesWithNumber = rowText.match(movePatternWithNumber);
+              const matchesWithNumber = matchNumberedMoves(rowText);
               if (matchesWithNumber) {
-                matchesWithNumber.forEach(match => {
-                  const cleaned = match.replace(/^\d+\.?\s*/, '').trim();
-                  const parts = cleaned.split(/\s+/).filter(p => p.length > 0);
-                  moves.push(...parts);
-                });
+                moves.push(...matchesWithNumber);
               } else {
                 // Try standalone pattern
-                const standaloneMatches = rowText.match(movePatternStandalone);
+                const standaloneMatches = matchStandaloneMoves(rowText);
                 if (standaloneMatches && standaloneMatches.length > 0) {
                   moves.push(...standaloneMatches.map(m => m.trim()));
                 } else {
@@ -376,7 +202,7 @@ function extractMovesFromBlocks(blocks) {
                     const wordText = word.text;
                     if (/^\d+$/.test(wordText) || wordText.length < 2) return;
                     
-                    const wordMatches = wordText.match(movePatternStandalone);
+                    const wordMatches = matchStandaloneMoves(wordText);
                     if (wordMatches && wordMatches.length > 0) {
                       moves.push(...wordMatches.map(m => m.trim()));
                     } else if (wordText.length >= 2 && wordText.length <= 10 && 
@@ -431,16 +257,12 @@ function extractMovesFromBlocks(blocks) {
           }
           
           // Try numbered pattern
-          const matchesWithNumber = rowText.match(movePatternWithNumber);
+          const matchesWithNumber = matchNumberedMoves(rowText);
           if (matchesWithNumber) {
-            matchesWithNumber.forEach(match => {
-              const cleaned = match.replace(/^\d+\.?\s*/, '').trim();
-              const parts = cleaned.split(/\s+/).filter(p => p.length > 0);
-              moves.push(...parts);
-            });
+            moves.push(...matchesWithNumber);
           } else {
             // Try standalone pattern
-            const standaloneMatches = rowText.match(movePatternStandalone);
+            const standaloneMatches = matchStandaloneMoves(rowText);
             if (standaloneMatches && standaloneMatches.length > 0) {
               moves.push(...standaloneMatches.map(m => m.trim()));
             } else {
@@ -477,48 +299,44 @@ function extractMovesFromBlocks(blocks) {
   // Filter out header row (row 0) for CELL blocks
   cellBlocks = cellBlocks.filter(cell => (cell.RowIndex || 0) > 0);
   
-  // Group by row and extract moves
-  const rows = {};
-  cellBlocks.forEach(cell => {
-    const rowIndex = cell.RowIndex || 0;
-    if (!rows[rowIndex]) {
-      rows[rowIndex] = [];
-    }
-    rows[rowIndex].push(cell);
-  });
+  // Group by row of each column block (1-30 before 31-60, see lib/pgn/layout.ts) and extract moves
+  const page = pageOf(blocks);
+  const movePage = {
+    ...page,
+    tables: page.tables.map(table => ({
+      ...table,
+      cells: table.cells.filter(cell => cell.row > 0 && cell.text.trim().length > 0)
+    }))
+  };
+  const { rows } = analyzeTableLayout(movePage, template);
   
   // Extract moves from each row
   let debugSampleRows = [];
-  Object.values(rows).forEach((rowCells, rowIdx) => {
-    rowCells.sort((a, b) => (a.ColumnIndex || 0) - (b.ColumnIndex || 0));
-    const rowText = rowCells.map(cell => cell.Text || '').join(' ').trim();
+  rows.forEach((rowCells, rowIdx) => {
+    const rowText = rowCells.map(cell => cell.text).join(' ').trim();
     
     // Debug: Log first few rows to see what we're working with
     if (rowIdx < 5) {
       debugSampleRows.push({
-        rowIndex: rowCells[0]?.RowIndex,
-        cells: rowCells.map(c => ({ text: c.Text, col: c.ColumnIndex })),
+        rowIndex: rowCells[0]?.row,
+        cells: rowCells.map(c => ({ text: c.text, col: c.column })),
         rowText: rowText
       });
     }
     
     // Try numbered pattern first
-    const matchesWithNumber = rowText.match(movePatternWithNumber);
+    const matchesWithNumber = matchNumberedMoves(rowText);
     if (matchesWithNumber) {
-      matchesWithNumber.forEach(match => {
-        const cleaned = match.replace(/^\d+\.?\s*/, '').trim();
-        const parts = cleaned.split(/\s+/).filter(p => p.length > 0);
-        moves.push(...parts);
-      });
+      moves.push(...matchesWithNumber);
     } else {
       // Try standalone pattern on row text
-      const standaloneMatches = rowText.match(movePatternStandalone);
+      const standaloneMatches = matchStandaloneMoves(rowText);
       if (standaloneMatches && standaloneMatches.length > 0) {
         moves.push(...standaloneMatches.map(m => m.trim()));
       } else {
         // Extract from individual cells (handles separate columns for move number, white, black)
         rowCells.forEach(cell => {
-          const cellText = (cell.Text || '').trim();
+          const cellText = cell.text.trim();
           
           // Skip if it's just a move number (e.g., "23", "24")
           if (/^\d+$/.test(cellText)) {
@@ -531,16 +349,12 @@ function extractMovesFromBlocks(blocks) {
           }
           
           // Try numbered pattern first
-          const cellMatchesWithNumber = cellText.match(movePatternWithNumber);
+          const cellMatchesWithNumber = matchNumberedMoves(cellText);
           if (cellMatchesWithNumber) {
-            cellMatchesWithNumber.forEach(match => {
-              const cleaned = match.replace(/^\d+\.?\s*/, '').trim();
-              const parts = cleaned.split(/\s+/).filter(p => p.length > 0);
-              moves.push(...parts);
-            });
+            moves.push(...cellMatchesWithNumber);
           } else {
             // Try standalone pattern - be more permissive
-            const cellMatchesStandalone = cellText.match(movePatternStandalone);
+            const cellMatchesStandalone = matchStandaloneMoves(cellText);
             if (cellMatchesStandalone && cellMatchesStandalone.length > 0) {
               // Filter out false positives but be more lenient
               const validMoves = cellMatchesStandalone.filter(m => {
@@ -550,7 +364,6 @@ function extractMovesFromBlocks(blocks) {
                   /^[a-h][1-8]/.test(trimmed) || // e4, e5, etc.
                   /^[NBRQK]/.test(trimmed) || // Nf3, Bb5, etc.
                   /^O-O/.test(trimmed) || // Castling
-                  /^0-0/.test(trimmed) || // Castling (numeric)
                   /^[a-h]x/.test(trimmed) || // Captures like exd5
                   /^[a-h][a-h]/.test(trimmed) || // Pawn moves like "ab" might be "a4" misread
                   /^[NBRQK][a-h]/.test(trimmed) // Piece moves like "Nf", "Bb"
@@ -587,7 +400,7 @@ function extractMovesFromBlocks(blocks) {
   if (moves.length === 0) {
     console.log('⚠️ No moves extracted. Debug info:', {
       totalCellBlocks: cellBlocks.length,
-      totalRows: Object.keys(rows).length,
+      totalRows: rows.length,
       sampleRows: debugSampleRows,
       sampleCellTexts: cellBlocks.slice(0, 30).map(c => c.Text).filter(t => t && t.trim().length > 0)
     });
@@ -619,64 +432,182 @@ function extractMovesFromBlocks(blocks) {
   return moves;
 }
 
+/**
+ * Extract moves written in descriptive notation (P-K4, PxP), as written
+ * Cells are read block by block and row by row (see lib/pgn/layout.ts), or words top
+ * to bottom when there is no table.
+ * 
+ * @param {Array} blocks - Textract blocks
+ * @param {Object|null} [template] - Score-sheet template, as for extractMovesFromBlocks
+ * @returns {Array} Descriptive move tokens in sheet order
+ */
+function extractDescriptiveMovesFromBlocks(blocks, template) {
+  const page = pageOf(blocks);
+  let source = analyzeTableLayout(page, template).rows.flat();
+  
+  if (source.length === 0) {
+    source = page.words
+      .filter(word => word.text && word.box)
+      .sort((a, b) => {
+        const topDiff = a.box.top - b.box.top;
+        if (Math.abs(topDiff) > a.box.height / 2) return topDiff;
+        return a.box.left - b.box.left;
+      });
+  }
+  
+  return source.reduce((moves, item) => moves.concat(matchDescriptiveMoves(item.text) || []), []);
+}
+
 /**
  * Correct OCR errors in moves using chess validation
+ * The whole game is reconstructed at once (see lib/pgn/reconstruction.ts), so an early
+ * correction is only kept if the moves after it still fit the board.
+ * 
+ * Tokens left out of the game and half-moves guessed for empty cells are reported in
+ * `repairs`, each with the index of the original move it applies to:
+ * - { type: 'dropped-token', index, original, confidence }
+ * - { type: 'inserted-placeholder', index, move, suggestions } (inserted before originalMoves[index])
+ * 
+ * Sheets kept with other piece letters (Sf3, Cf3) or figurines are read in English SAN;
+ * the language is detected from letter frequency unless given, and reported as
+ * `notationLanguage` (see lib/pgn/notation.ts). Sheets in descriptive notation (P-K4)
+ * are converted on the board; the moves as written are kept in `sheetMoves` and the
+ * system is reported as `notationSystem` (see lib/pgn/descriptive.ts). Long algebraic
+ * and coordinate moves (e2-e4, g1f3) are converted the same way (lib/pgn/long-algebraic.ts).
+ * Sheets with side-by-side move columns (1-30 next to 31-60) are read block by block,
+ * and the blocks found are reported as `layout` (see lib/pgn/layout.ts). Known sheet
+ * designs are matched to a template whose grid decides the blocks, reported as `template`
+ * (see lib/pgn/templates.ts).
+ * 
  * @param {Array} blocks - Textract blocks (filtered TABLE/CELL blocks)
- * @returns {Object} { moves: Array, corrections: Array, stats: Object }
+ * @param {Object} [options] - { language, system, template } to skip detection (template: an id, or null for none)
+ * @returns {Object} { originalMoves, sheetMoves?, correctedMoves, moveConfidences, corrections, repairs, alternatives, notationLanguage, notationSystem, layout, template, stats }
  */
-function correctOCRErrors(blocks) {
-  const board = new Chess();
-  const originalMoves = extractMovesFromBlocks(blocks);
+function correctOCRErrors(blocks, options = {}) {
+  const cellTexts = (blocks || []).filter(block => block.BlockType === 'CELL' && block.Text).map(block => block.Text);
+  const sheetTexts = cellTexts.length > 0
+    ? cellTexts
+    : (blocks || []).filter(block => block.BlockType === 'WORD' && block.Text).map(block => block.Text);
+  const notationSystem = options.system || detectNotationSystem(sheetTexts);
+  const notationLanguage = notationSystem === 'descriptive'
+    ? 'en'
+    : options.language || detectNotationLanguage(sheetTexts);
+  const englishBlocks = (blocks || []).map(block =>
+    block.Text ? { ...block, Text: toEnglishNotation(block.Text, notationLanguage) } : block
+  );
+  
+  // A known sheet design is read with its own grid
+  const page = pageOf(blocks);
+  const match = options.template === undefined ? matchTemplate(page) : null;
+  const template = match ? match.template : (options.template && findTemplate(options.template)) || null;
+  
+  // Descriptive and long algebraic moves are located on the sheet as written, and validated once in SAN
+  const descriptive = notationSystem === 'descriptive';
+  const writtenMoves = descriptive
+    ? extractDescriptiveMovesFromBlocks(englishBlocks, template)
+    : extractMovesFromBlocks(englishBlocks, template);
+  const sheetMoves = descriptive || writtenMoves.some(isLongAlgebraic) ? writtenMoves : null;
+  const convert = descriptive ? convertDescriptiveGame : convertLongAlgebraicGame;
+  const originalMoves = sheetMoves ? convert(sheetMoves) : writtenMoves;
+  // Confidence of the cell or word each move was read from, found as the convert page does
+  const moveConfidences = locateMoveSources(page, writtenMoves, notationLanguage, template)
+    .map(source => (source.confidence !== undefined ? source.confidence : null));
+  const { layout } = analyzeTableLayout(page, template);
+  const { best, alternatives } = reconstructGame(originalMoves, {
+    confidences: moveConfidences,
+    interpret: sheetMoves ? (descriptive ? descriptiveReadings : longAlgebraicReadings) : undefined
+  });
   const correctedMoves = [];
   const corrections = [];
+  const repairs = [];
   const stats = {
     total: originalMoves.length,
     valid: 0,
     corrected: 0,
-    invalid: 0
+    invalid: 0,
+    repaired: 0
   };
   
-  for (const originalMove of originalMoves) {
-    const result = fuzzyMatchMove(board, originalMove);
+  // Index of the next original move; inserted half-moves do not consume one
+  let index = 0;
+  
+  best.moves.forEach(result => {
+    if (result.repair === 'dropped-token') {
+      repairs.push({
+        type: 'dropped-token',
+        index: index++,
+        original: result.original,
+        confidence: result.confidence
+      });
+      stats.repaired++;
+      return;
+    }
     
-    if (result.valid) {
-      correctedMoves.push(result.move);
-      
-      if (result.corrected) {
-        corrections.push({
-          original: result.original,
-          corrected: result.move,
-          correction: result.correction
-        });
-        stats.corrected++;
-      } else {
-        stats.valid++;
-      }
+    correctedMoves.push(result.move);
+    
+    if (result.repair === 'inserted-placeholder') {
+      repairs.push({
+        type: 'inserted-placeholder',
+        index,
+        move: result.move,
+        suggestions: result.candidates
+      });
+      stats.repaired++;
+      return;
+    }
+    
+    index++;
+    if (result.valid && !result.corrected) {
+      stats.valid++;
+    } else if (result.valid) {
+      corrections.push({
+        // Position in correctedMoves
+        index: correctedMoves.length - 1,
+        original: result.original,
+        corrected: result.move,
+        correction: `${extractMoveNotation(result.original)} → ${result.move}`,
+        suggestions: result.candidates,
+        confidence: result.confidence
+      });
+      stats.corrected++;
     } else {
       // Keep original move even if invalid (with flag)
-      correctedMoves.push(result.move);
       corrections.push({
+        index: correctedMoves.length - 1,
         original: result.original,
         corrected: null,
-        error: result.error || 'Invalid move'
+        error: result.error || 'Invalid move',
+        suggestions: result.candidates,
+        confidence: result.confidence
       });
       stats.invalid++;
     }
-  }
+  });
   
   return {
     originalMoves,
+    ...(sheetMoves ? { sheetMoves } : {}),
     correctedMoves,
+    moveConfidences,
     corrections,
-    stats
+    repairs,
+    // Next best whole-game readings, for a reviewer who disagrees with the first
+    alternatives: alternatives.map(alternative => ({
+      moves: alternative.moves.map(move => move.move),
+      score: alternative.score
+    })),
+    notationLanguage,
+    notationSystem,
+    // Column blocks of the move table, null when the sheet was read without one
+    layout: layout.blocks > 0 ? layout : null,
+    template: template ? template.id : null,
+    stats: { ...stats, score: best.score }
   };
 }
 
 module.exports = {
   validateMove,
-  fuzzyMatchMove,
   correctOCRErrors,
-  generateFuzzyMatches,
   extractMoveNotation,
   Chess
 };
@@ -1,12 +1,43 @@
 const AWS = require('aws-sdk');
 const { correctOCRErrors } = require('./chess-validator');
+const { PipelineError } = require('./shared/errors');
+
+// Textract errors that no retry will fix: the account or the image is the problem
+const OCR_UNAVAILABLE_ERRORS = ['SubscriptionRequiredException', 'AccessDeniedException'];
+// Textract is busy; the same image goes through once the request rate drops
+const OCR_THROTTLED_ERRORS = ['ProvisionedThroughputExceededException', 'ThrottlingException'];
+const UNSUPPORTED_IMAGE_ERRORS = ['UnsupportedDocumentException', 'BadDocumentException', 'DocumentTooLargeException', 'InvalidS3ObjectException'];
+// Time kept back from the Lambda's own timeout to record that it ran out of time
+const TIMEOUT_MARGIN_MS = 3000;
 
 // Initialize AWS services with explicit region configuration for optimal performance
 const region = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || 'ap-south-1';
 const s3 = new AWS.S3({ region });
 const textract = new AWS.Textract({ region });
 
-exports.handler = async (event) => {
+/**
+ * Record how far processing of an image has got, for the job API (app/api/jobs)
+ * A failed job's record carries the PipelineError's code, message and detail (see lib/jobs/errors.ts).
+ * Best effort: a status that cannot be saved must not fail the conversion.
+ */
+async function saveJobStatus(bucket, key, status, failure) {
+  const record = failure
+    ? { status, code: failure.code, error: failure.message, detail: failure.detail }
+    : { status };
+  try {
+    await s3.putObject({
+      Bucket: bucket,
+      Key: `public/jobs/${key}.json`,
+      Body: JSON.stringify({ ...record, updatedAt: new Date().toISOString() }),
+      ContentType: 'application/json',
+      CacheControl: 'no-cache'
+    }).promise();
+  } catch (statusError) {
+    console.warn('⚠️ Could not save job status:', { key, status, error: statusError.message });
+  }
+}
+
+exports.handler = async (event, context) => {
   const startTime = Date.now();
   console.log('🚀 Lambda function invoked:', { 
     eventTime: new Date().toISOString(),
@@ -21,6 +52,11 @@ exports.handler = async (event) => {
     throw new Error('Invalid S3 event: No Records found');
   }
 
+  // Set once the image is known, so a failure can be recorded against its job
+  let job = null;
+  // Records a timeout just before the Lambda is stopped, when no catch block would run
+  let timeoutTimer = null;
+
   try {
     // Extract S3 event details
     const s3Record = event.Records[0].s3;
@@ -34,8 +70,8 @@ exports.handler = async (event) => {
     
     console.log('📄 Processing document:', { bucket, originalKey });
 
-    // Skip processing results files to avoid infinite loops
-    if (originalKey.startsWith('results/') || originalKey.startsWith('public/results/')) {
+    // Skip processing results and job status files to avoid infinite loops
+    if (['results/', 'public/results/', 'jobs/', 'public/jobs/'].some(prefix => originalKey.startsWith(prefix))) {
       console.log('⏭️ Skipping results file:', originalKey);
       return {
         statusCode: 200,
@@ -57,6 +93,16 @@ exports.handler = async (event) => {
       });
     }
 
+    job = { bucket, key: normalizedKey };
+    await saveJobStatus(bucket, normalizedKey, 'ocr');
+    if (context && context.getRemainingTimeInMillis) {
+      timeoutTimer = setTimeout(() => {
+        saveJobStatus(bucket, normalizedKey, 'failed', new PipelineError('TIMEOUT', {
+          detail: `Lambda timed out after ${Math.round((Date.now() - startTime) / 1000)}s`
+        }));
+      }, Math.max(0, context.getRemainingTimeInMillis() - TIMEOUT_MARGIN_MS));
+    }
+
     // Configure Textract parameters - using analyzeDocument with TABLES feature only for cost optimization
     // CRITICAL: Use originalKey here because the file is stored with 'public/' prefix in S3
     const textractParams = {
@@ -75,13 +121,14 @@ exports.handler = async (event) => {
     
     const textractPromise = textract.analyzeDocument(textractParams).promise();
     const timeoutPromise = new Promise((_, reject) => 
-      setTimeout(() => reject(new Error('Textract timeout after 30 seconds')), 30000)
+      setTimeout(() => reject(new PipelineError('TIMEOUT', { detail: 'Textract timeout after 30 seconds' })), 30000)
     );
 
     let textractData;
     try {
       textractData = await Promise.race([textractPromise, timeoutPromise]);
     } catch (textractError) {
+      if (textractError instanceof PipelineError) throw textractError;
       console.error('❌ Textract API error:', {
         error: textractError.message,
         code: textractError.code,
@@ -98,10 +145,20 @@ exports.handler = async (event) => {
           `Make sure you're in the ${region} region. ` +
           `See ENABLE_TEXTRACT.md for detailed instructions.`;
         console.error('💡', helpfulMessage);
-        throw new Error(helpfulMessage);
+        throw new PipelineError('OCR_UNAVAILABLE', { detail: helpfulMessage });
       }
       
-      throw new Error(`Textract failed: ${textractError.message} (Code: ${textractError.code})`);
+      const detail = `Textract failed: ${textractError.message} (Code: ${textractError.code})`;
+      if (OCR_UNAVAILABLE_ERRORS.includes(textractError.code)) {
+        throw new PipelineError('OCR_UNAVAILABLE', { detail });
+      }
+      if (OCR_THROTTLED_ERRORS.includes(textractError.code)) {
+        throw new PipelineError('OCR_THROTTLED', { detail });
+      }
+      if (UNSUPPORTED_IMAGE_ERRORS.includes(textractError.code)) {
+        throw new PipelineError('UNSUPPORTED_IMAGE', { detail });
+      }
+      throw new Error(detail);
     }
     
     const textractDuration = Date.now() - textractStartTime;
@@ -164,7 +221,9 @@ exports.handler = async (event) => {
       filteredPercent: originalBlocksCount > 0 ? ((filteredBlocksCount / originalBlocksCount) * 100).toFixed(1) + '%' : '0%'
     });
 
-    // Extract, validate, and correct chess moves using fuzzy matching
+    await saveJobStatus(bucket, normalizedKey, 'validating');
+
+    // Extract, validate, and correct chess moves by reconstructing the game
     console.log('♟️ Starting chess move validation and OCR correction...');
     const cellsWithText = cellBlocks.filter(b => b.Text && b.Text.trim().length > 0);
     console.log('📋 Filtered blocks info:', {
@@ -193,6 +252,7 @@ exports.handler = async (event) => {
     const validationStartTime = Date.now();
     
     let validationResult;
+    let validationFailed = false;
     try {
       validationResult = correctOCRErrors(filteredBlocks);
       
@@ -207,6 +267,7 @@ exports.handler = async (event) => {
         validMoves: validationResult.stats.valid,
         correctedMoves: validationResult.stats.corrected,
         invalidMoves: validationResult.stats.invalid,
+        repairs: validationResult.stats.repaired,
         correctionRate: validationResult.stats.total > 0 
           ? ((validationResult.stats.corrected / validationResult.stats.total) * 100).toFixed(1) + '%'
           : '0%'
@@ -223,23 +284,47 @@ exports.handler = async (event) => {
         stack: validationError.stack
       });
       // Continue without validation if there's an error
+      validationFailed = true;
       validationResult = {
         originalMoves: [],
         correctedMoves: [],
+        moveConfidences: [],
         corrections: [],
-        stats: { total: 0, valid: 0, corrected: 0, invalid: 0 }
+        repairs: [],
+        alternatives: [],
+        notationLanguage: 'en',
+        notationSystem: 'algebraic',
+        layout: null,
+        template: null,
+        stats: { total: 0, valid: 0, corrected: 0, invalid: 0, repaired: 0 }
       };
     }
 
     // Enhance results with validated and corrected moves
     textractData.chessValidation = {
       originalMoves: validationResult.originalMoves,
+      sheetMoves: validationResult.sheetMoves,
       correctedMoves: validationResult.correctedMoves,
+      moveConfidences: validationResult.moveConfidences,
       corrections: validationResult.corrections,
+      repairs: validationResult.repairs,
+      alternatives: validationResult.alternatives,
+      notationLanguage: validationResult.notationLanguage,
+      notationSystem: validationResult.notationSystem,
+      layout: validationResult.layout,
+      template: validationResult.template,
       stats: validationResult.stats,
       timestamp: new Date().toISOString()
     };
 
+    // Nothing to review; recorded as the job's failure once the results are saved
+    if (!validationFailed && validationResult.originalMoves.length === 0) {
+      const failure = cellBlocks.length === 0
+        ? new PipelineError('NO_TABLE_FOUND', { detail: `Textract found no table cells (${originalBlocksCount} blocks)` })
+        : new PipelineError('NO_MOVES', { detail: `No moves in ${cellsWithText.length} table cells with text` });
+      textractData.failure = { code: failure.code, message: failure.message, detail: failure.detail };
+    }
+
     // Save filtered results to S3 (only TABLE and CELL blocks + validation results)
     // IMPORTANT: Use 'public/results/' prefix to match Amplify Storage behavior
     // When frontend uses Storage.get() with level: 'public', it automatically adds 'public/' prefix
@@ -296,9 +381,21 @@ exports.handler = async (event) => {
         bucket,
         key: resultKey
       });
-      throw new Error(`Failed to save results to S3: ${s3Error.message}`);
+      throw new PipelineError('STORAGE_ERROR', { detail: `Failed to save results to S3: ${s3Error.message}` });
+    }
+
+    // A sheet without a move table or moves is saved for inspection, but the job failed;
+    // it is not thrown, as a retry would read the same image the same way
+    if (textractData.failure) {
+      await saveJobStatus(bucket, normalizedKey, 'failed', textractData.failure);
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ message: textractData.failure.message, code: textractData.failure.code, resultKey })
+      };
     }
 
+    await saveJobStatus(bucket, normalizedKey, 'done');
+
     const totalDuration = Date.now() - startTime;
     console.log(`✅ Processing complete in ${totalDuration}ms`, {
       resultKey,
@@ -333,7 +430,20 @@ exports.handler = async (event) => {
       event: JSON.stringify(event, null, 2)
     });
     
-    // Re-throw to trigger Lambda retry mechanism
-    throw error;
+    // Without a job there is nothing to report to; re-throw to trigger Lambda retry mechanism
+    if (!job) throw error;
+
+    // Not thrown once recorded: S3's retry would set the failed job back to 'ocr' after the
+    // convert page has stopped watching it. Failures worth retrying say so in their message.
+    const failure = error instanceof PipelineError
+      ? error
+      : new PipelineError('INTERNAL_ERROR', { detail: error.message });
+    await saveJobStatus(job.bucket, job.key, 'failed', failure);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: failure.message, code: failure.code })
+    };
+  } finally {
+    clearTimeout(timeoutTimer);
   }
 };
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server'
+import { getJob, getJobResults, type Job } from '@/lib/jobs/jobs'
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic'
+
+// How often the job's status record is read while the stream is open
+const CHECK_INTERVAL_MS = 1000
+
+/**
+ * Server-sent events for a job, so the page does not poll S3 itself
+ * GET /api/jobs/<id>/events
+ *
+ * Sends a `status` event with the job whenever its status changes, then `done` with the
+ * job and its results, or `failed` with the job and its error, and closes.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: object) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      let lastStatus: Job['status'] | null = null
+      try {
+        while (!request.signal.aborted) {
+          const job = await getJob(params.id)
+          if (!job) {
+            send('failed', { id: params.id, status: 'failed', error: 'Job not found' })
+            break
+          }
+          if (job.status === 'done') {
+            send('done', { ...job, results: await getJobResults(job) })
+            break
+          }
+          if (job.status === 'failed') {
+            send('failed', job)
+            break
+          }
+          if (job.status !== lastStatus) {
+            send('status', job)
+            lastStatus = job.status
+          }
+          await new Promise(resolve => setTimeout(resolve, CHECK_INTERVAL_MS))
+        }
+      } catch (error: any) {
+        console.error('Error in job events API:', error)
+        if (!request.signal.aborted) {
+          send('failed', { id: params.id, status: 'failed', error: `Failed to check job status: ${error.message}` })
+        }
+      }
+      // The stream is already closed when the page went away
+      if (!request.signal.aborted) controller.close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getJob } from '@/lib/jobs/jobs'
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic'
+
+/**
+ * API route to check a job's status
+ * GET /api/jobs/<id>
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const job = await getJob(params.id)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(job)
+  } catch (error: any) {
+    console.error('Error in jobs API:', error)
+    return NextResponse.json(
+      { error: 'Failed to check job status', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createJob } from '@/lib/jobs/jobs'
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic'
+
+/**
+ * API route to start following an uploaded score sheet
+ * POST /api/jobs { key: <s3-key> }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const key = body?.key
+
+    if (typeof key !== 'string' || !key.trim() || key.startsWith('/') || key.includes('..')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid key' },
+        { status: 400 }
+      )
+    }
+
+    const job = await createJob(key)
+    if (!job) {
+      return NextResponse.json(
+        { error: 'No uploaded image for this key' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json(job, { status: 201 })
+  } catch (error: any) {
+    console.error('Error in jobs API:', error)
+    return NextResponse.json(
+      { error: 'Failed to create job', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getResults } from '@/lib/aws/storage'
+import { getJob, getJobResults, jobIdOf } from '@/lib/jobs/jobs'
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic'
@@ -7,6 +7,7 @@ export const dynamic = 'force-dynamic'
 /**
  * API route to check processing status and retrieve results
  * GET /api/process?key=<s3-key>
+ * Kept for existing callers; the convert page follows jobs through /api/jobs.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -20,28 +21,33 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Try to get results from S3
-    try {
-      const results = await getResults(key)
+    // Status of the image's job, as the Lambda records it (see /api/jobs)
+    const job = await getJob(jobIdOf(key))
+
+    if (job?.status === 'done') {
+      const results = await getJobResults(job)
       console.log('✅ Results found for key:', key)
       return NextResponse.json({
         status: 'completed',
         results,
       })
-    } catch (error: any) {
-      // Results not found - processing might still be in progress
-      if (error.message === 'Results not found' || error.message?.includes('not found')) {
-        console.log('⏳ Results not found yet for key:', key, '- processing may still be in progress')
-        return NextResponse.json({
-          status: 'processing',
-          message: 'Processing in progress',
-        })
-      }
-      
-      // Log other errors for debugging
-      console.error('❌ Error getting results for key:', key, error)
-      throw error
     }
+
+    if (job?.status === 'failed') {
+      return NextResponse.json({
+        status: 'failed',
+        code: job.code,
+        error: job.error,
+        detail: job.detail,
+      })
+    }
+
+    // Not started or still running
+    return NextResponse.json({
+      status: 'processing',
+      stage: job?.status || 'queued',
+      message: 'Processing in progress',
+    })
   } catch (error: any) {
     console.error('Error in process API:', error)
     return NextResponse.json(
@@ -1,13 +1,53 @@
 'use client'
 
-import { useRef, useState, useEffect, useCallback } from 'react'
+import { useRef, useState, useEffect, useCallback, useMemo } from 'react'
 import Header from '@/components/layout/Header'
 import Footer from '@/components/layout/Footer'
 import Stepper from '@/components/ui/Stepper'
-import { uploadImage, getResults } from '@/lib/aws/storage'
-import { parseTextractResponse } from '@/lib/pgn/parser'
-import { convertToPGN, downloadPGN } from '@/lib/pgn/converter'
-import { Chess } from 'chess.js'
+import GameInfoForm from '@/components/convert/GameInfoForm'
+import ChessBoard from '@/components/convert/ChessBoard'
+import MoveSuggestions, { type MoveSuggestion } from '@/components/convert/MoveSuggestions'
+import ScoreSheetPreview, { type SheetBox } from '@/components/convert/ScoreSheetPreview'
+import BatchQueue, { type BatchQueueItem } from '@/components/convert/BatchQueue'
+import { uploadImage } from '@/lib/aws/storage'
+import { createJob, watchJob } from '@/lib/jobs/client'
+import type { JobStatus } from '@/lib/jobs/jobs'
+import {
+  parseScoreSheet,
+  locateMoveSources,
+  detectSheetLanguage,
+  detectSheetSystem,
+  type GameMetadata,
+  type MoveSource,
+  type ParsedChessGame,
+  type ParseOptions
+} from '@/lib/pgn/parser'
+import {
+  convertToPGN,
+  convertToPGNDatabase,
+  decidedResult,
+  downloadPGN,
+  validateMetadata,
+  validatePGN,
+  type PGNDatabaseOptions,
+  type PGNValidationError
+} from '@/lib/pgn/converter'
+import { convertDescriptiveGame } from '@/lib/pgn/descriptive'
+import { convertLongAlgebraicGame } from '@/lib/pgn/long-algebraic'
+import { matchStandaloneMoves, splitAnnotation } from '@/lib/pgn/san'
+import { NOTATION_LANGUAGES, toEnglishNotation, type NotationLanguage } from '@/lib/pgn/notation'
+import { describeLayout, type SheetLayout } from '@/lib/pgn/layout'
+import { findTemplate } from '@/lib/pgn/templates'
+import {
+  checkPageContinuity,
+  continuationPosition,
+  describeContinuityIssue,
+  firstMoveOfPage,
+  type PageContinuityIssue
+} from '@/lib/pgn/pages'
+import { loadOcrProvider, type OcrPage } from '@/lib/ocr/document'
+import { fromTextract } from '@/lib/ocr/blocks'
+import { Chess, type Move } from 'chess.js'
 
 const steps = [
   { label: 'Upload', number: 1 },
@@ -16,7 +56,30 @@ const steps = [
   { label: 'Done', number: 4 },
 ]
 
-type ProcessingStatus = 'idle' | 'uploading' | 'processing' | 'completed' | 'validated' | 'error'
+// Sheets are read by Textract through S3 and the Lambda, or by Tesseract in the browser
+const LOCAL_OCR = process.env.NEXT_PUBLIC_OCR_PROVIDER === 'tesseract'
+
+// Read a sheet in the browser; the results hold the OCR document but no chessValidation
+async function recognizeLocally(file: File): Promise<any> {
+  const provider = await loadOcrProvider('tesseract')
+  return { document: await provider.recognize(file) }
+}
+
+// The OCR page of a sheet's results: read in the browser, or the Lambda's Textract blocks
+function sheetPage(results: any): OcrPage {
+  return results.document?.pages[0] || fromTextract({ Blocks: results.Blocks || results.blocks || [] }).pages[0]
+}
+
+// Progress bar position and label for each stage of a job
+const jobStages: { [status in JobStatus]: { progress: number; label: string } } = {
+  queued: { progress: 55, label: 'Waiting for processing to start...' },
+  ocr: { progress: 65, label: 'Extracting text with OCR...' },
+  validating: { progress: 85, label: 'Checking moves on the board...' },
+  done: { progress: 100, label: 'Done' },
+  failed: { progress: 100, label: 'Failed' },
+}
+
+type ProcessingStatus = 'idle' | 'uploading' | 'processing' | 'completed' | 'validated' | 'info' | 'error'
 
 type MoveData = {
   moveNumber: number
@@ -28,6 +91,16 @@ type MoveData = {
   blackError: string | null
   whiteOriginal?: string
   blackOriginal?: string
+  whiteSuggestions?: MoveSuggestion[]
+  blackSuggestions?: MoveSuggestion[]
+  whiteSource?: MoveSource
+  blackSource?: MoveSource
+  // Half-move the validator guessed for an empty cell, pending the reviewer's decision
+  whiteInserted?: boolean
+  blackInserted?: boolean
+  // Tokens the validator left out just before this half-move, pending the reviewer's decision
+  whiteDropped?: string[]
+  blackDropped?: string[]
 }
 
 type EditableMove = {
@@ -43,35 +116,318 @@ type ContextMenuState = {
   color: 'white' | 'black'
 } | null
 
+type HalfMove = {
+  text: string
+  valid: boolean
+  error: string | null
+  original?: string
+  suggestions?: MoveSuggestion[]
+  source?: MoveSource
+  inserted?: boolean
+  dropped?: string[]
+}
+
+// A repair reported by the Lambda; `index` points into chessValidation.originalMoves
+type MoveRepair =
+  | { type: 'dropped-token'; index: number; original: string }
+  | { type: 'inserted-placeholder'; index: number; move: string; suggestions?: MoveSuggestion[] }
+
+// Per-move repair state, kept aligned with the move list like MoveSource
+type RepairMark = {
+  inserted?: boolean
+  dropped?: string[]
+  suggestions?: MoveSuggestion[]
+}
+
+// Shown in a freshly inserted cell until the user types the real move
+const PLACEHOLDER_MOVE = '?'
+
+// A score sheet page picked for upload, with its local preview
+type SheetUpload = {
+  file: File
+  preview: string
+}
+
+// One game of a round converted in a batch; the review is kept once its PGN is generated
+type BatchSheet = BatchQueueItem & {
+  upload: SheetUpload
+  results?: any
+  game?: ParsedChessGame
+  review?: { moves: MoveData[]; metadata: GameMetadata }
+}
+
+// Notation the sheet is read in: algebraic with a language's piece letters, or descriptive
+type NotationChoice = NotationLanguage | 'descriptive'
+
+function notationLabel(choice: NotationChoice): string {
+  return choice === 'descriptive' ? 'English descriptive' : NOTATION_LANGUAGES[choice].name
+}
+
+function parseOptionsFor(choice: NotationChoice): ParseOptions {
+  return choice === 'descriptive' ? { system: 'descriptive' } : { system: 'algebraic', language: choice }
+}
+
+/**
+ * Flatten paired moves into a single half-move sequence (white, black, white, ...)
+ */
+function flattenMoves(moves: MoveData[]): HalfMove[] {
+  const halfMoves: HalfMove[] = []
+  moves.forEach(move => {
+    halfMoves.push({
+      text: move.white,
+      valid: move.whiteValid,
+      error: move.whiteError,
+      original: move.whiteOriginal,
+      suggestions: move.whiteSuggestions,
+      source: move.whiteSource,
+      inserted: move.whiteInserted,
+      dropped: move.whiteDropped
+    })
+    if (move.black !== null) {
+      halfMoves.push({
+        text: move.black,
+        valid: move.blackValid,
+        error: move.blackError,
+        original: move.blackOriginal,
+        suggestions: move.blackSuggestions,
+        source: move.blackSource,
+        inserted: move.blackInserted,
+        dropped: move.blackDropped
+      })
+    }
+  })
+  return halfMoves
+}
+
+/**
+ * Pair a half-move sequence back into numbered white/black rows
+ */
+function pairHalfMoves(halfMoves: HalfMove[]): MoveData[] {
+  const pairs: MoveData[] = []
+  for (let i = 0; i < halfMoves.length; i += 2) {
+    const white = halfMoves[i]
+    const black = i + 1 < halfMoves.length ? halfMoves[i + 1] : null
+    pairs.push({
+      moveNumber: Math.floor(i / 2) + 1,
+      white: white.text,
+      black: black ? black.text : null,
+      whiteValid: white.valid,
+      blackValid: black ? black.valid : true,
+      whiteError: white.error,
+      blackError: black ? black.error : null,
+      whiteOriginal: white.original,
+      blackOriginal: black?.original,
+      whiteSuggestions: white.suggestions,
+      blackSuggestions: black?.suggestions,
+      whiteSource: white.source,
+      blackSource: black?.source,
+      whiteInserted: white.inserted,
+      blackInserted: black?.inserted,
+      whiteDropped: white.dropped,
+      blackDropped: black?.dropped
+    })
+  }
+  return pairs
+}
+
+/**
+ * Play a half-move as it goes into the PGN: the move it was validated or corrected to,
+ * without its annotation glyph. Returns null when it is not legal in the position.
+ */
+function playHalfMove(board: Chess, halfMove: HalfMove): Move | null {
+  if (halfMove.text === PLACEHOLDER_MOVE) return null
+  try {
+    return board.move(splitAnnotation(halfMove.text).move)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Position before each half-move, then after the last one; replayed as in revalidateHalfMoves
+ */
+function positionsOf(halfMoves: HalfMove[]): string[] {
+  const board = new Chess()
+  const positions = [board.fen()]
+  halfMoves.forEach(halfMove => {
+    playHalfMove(board, halfMove)
+    positions.push(board.fen())
+  })
+  return positions
+}
+
+/**
+ * Re-check every half-move from `fromIndex` onwards against the board.
+ * Earlier half-moves keep their status and are only replayed to reach the position,
+ * unless that position (`fen`, e.g. from positionsOf) is given.
+ * Like correctOCRErrors in the Lambda, an invalid half-move is left off the board
+ * so the moves after it are still checked. Suggestions from the Lambda were ranked
+ * for the old position, so they are dropped for re-checked half-moves.
+ */
+function revalidateHalfMoves(halfMoves: HalfMove[], fromIndex: number, fen?: string): HalfMove[] {
+  const board = new Chess(fen)
+  return halfMoves.map((halfMove, index) => {
+    if (fen && index < fromIndex) return halfMove
+    const played = !!playHalfMove(board, halfMove)
+
+    if (index < fromIndex) return halfMove
+
+    if (halfMove.text === PLACEHOLDER_MOVE) {
+      return { ...halfMove, valid: false, error: 'Missing move', suggestions: undefined }
+    }
+    return played
+      ? { ...halfMove, valid: true, error: null, suggestions: undefined }
+      : { ...halfMove, valid: false, error: 'Invalid move', suggestions: undefined }
+  })
+}
+
+/**
+ * Apply the Lambda's repairs to the OCR moves: dropped tokens are taken out (and remembered
+ * on the half-move after them), guessed half-moves are put in. Sources stay aligned.
+ */
+function applyRepairs(
+  moves: string[],
+  sources: MoveSource[],
+  repairs: MoveRepair[]
+): { moves: string[]; sources: MoveSource[]; marks: RepairMark[] } {
+  const result = { moves: [] as string[], sources: [] as MoveSource[], marks: [] as RepairMark[] }
+  let dropped: string[] = []
+
+  moves.forEach((move, index) => {
+    for (const repair of repairs) {
+      if (repair.index !== index || repair.type !== 'inserted-placeholder') continue
+      result.moves.push(repair.move)
+      result.sources.push({})
+      result.marks.push({ inserted: true, suggestions: repair.suggestions })
+    }
+
+    if (repairs.some(repair => repair.index === index && repair.type === 'dropped-token')) {
+      dropped.push(move)
+      return
+    }
+
+    result.moves.push(move)
+    result.sources.push(sources[index])
+    result.marks.push(dropped.length > 0 ? { dropped } : {})
+    dropped = []
+  })
+
+  return result
+}
+
+function halfMoveIndexOf(moveNumber: number, color: 'white' | 'black'): number {
+  return (moveNumber - 1) * 2 + (color === 'black' ? 1 : 0)
+}
+
+type ReviewPosition = {
+  fen: string
+  lastMove: { from: string; to: string } | null
+  // Set when the board shows the position before the half-move, ready for a replacement
+  legalMoves: string[] | null
+}
+
+/**
+ * Position to show on the review board for a half-move.
+ * A valid half-move is shown played, with its squares highlighted; an invalid one
+ * (or one being edited) shows the position before it together with the legal moves.
+ */
+function reviewPositionFor(halfMoves: HalfMove[], index: number, editing: boolean): ReviewPosition {
+  const board = new Chess()
+  let lastMove: ReviewPosition['lastMove'] = null
+
+  // Replayed as in revalidateHalfMoves, so the board shows the game the PGN will hold
+  for (let i = 0; i < index && i < halfMoves.length; i++) {
+    const played = playHalfMove(board, halfMoves[i])
+    if (played) lastMove = { from: played.from, to: played.to }
+  }
+
+  const halfMove = halfMoves[index]
+  const played = halfMove && halfMove.valid && !editing ? playHalfMove(board, halfMove) : null
+  if (played) {
+    return { fen: board.fen(), lastMove: { from: played.from, to: played.to }, legalMoves: null }
+  }
+
+  return { fen: board.fen(), lastMove, legalMoves: board.moves() }
+}
+
+// Legal moves read below this OCR confidence are shaded for a second look
+const DEFAULT_CONFIDENCE_THRESHOLD = 80
+
+function isLowConfidence(halfMove: HalfMove, threshold: number): boolean {
+  const confidence = halfMove.source?.confidence
+  return halfMove.valid && confidence !== undefined && confidence < threshold
+}
+
+function countInvalidMoves(moves: MoveData[]): number {
+  return moves.reduce((count, move) => {
+    if (!move.whiteValid) count++
+    if (move.black && !move.blackValid) count++
+    return count
+  }, 0)
+}
+
+// Error banner text for a PGN that failed validation: the first problem and how many more
+function describePGNErrors(errors: PGNValidationError[]): string {
+  const [first] = errors
+  const game = errors.some(error => error.game > 1) ? `game ${first.game}, ` : ''
+  const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''
+  return `The PGN is not valid: ${first.message} (${game}line ${first.line}, column ${first.column})${more}`
+}
+
 export default function ConvertPage() {
   const fileInputRef = useRef<HTMLInputElement>(null)
   const cameraInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  const batchCancelledRef = useRef(false)
   const pollingCancelledRef = useRef<boolean>(false)
-  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   
   const [status, setStatus] = useState<ProcessingStatus>('idle')
   const [uploadedKey, setUploadedKey] = useState<string | null>(null)
-  const [imagePreview, setImagePreview] = useState<string | null>(null)
+  // Stage the Lambda has reached with the page being read
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null)
+  // Pages of the game in reading order; picked first, then uploaded together
+  const [pages, setPages] = useState<SheetUpload[]>([])
+  // Page being uploaded or read, and the one shown beside the moves
+  const [currentPage, setCurrentPage] = useState(0)
+  const [shownPage, setShownPage] = useState(0)
+  const [pageIssues, setPageIssues] = useState<PageContinuityIssue[]>([])
+  // Whether several pages picked together are one game or the games of a round
+  const [uploadMode, setUploadMode] = useState<'game' | 'round'>('game')
+  const [batch, setBatch] = useState<BatchSheet[]>([])
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null)
   const [extractedText, setExtractedText] = useState<string>('')
+  const [gameMetadata, setGameMetadata] = useState<GameMetadata>({})
   const [pgnOutput, setPgnOutput] = useState<string>('')
   const [error, setError] = useState<string | null>(null)
   const [progress, setProgress] = useState(0)
   
   // Moves table state
   const [movesData, setMovesData] = useState<MoveData[]>([])
+  // Position before each half-move, so an edit is checked without replaying the game
+  const positions = useMemo(() => positionsOf(flattenMoves(movesData)), [movesData])
   const [invalidMovesCount, setInvalidMovesCount] = useState<number>(0)
   const [editableMove, setEditableMove] = useState<EditableMove>(null)
   const [contextMenu, setContextMenu] = useState<ContextMenuState>(null)
   const [editedMoveValue, setEditedMoveValue] = useState<string>('')
+  const [selectedMove, setSelectedMove] = useState<EditableMove>(null)
+  const [hoveredMove, setHoveredMove] = useState<EditableMove>(null)
+  const [showAllBoxes, setShowAllBoxes] = useState<boolean>(false)
+  const [confidenceThreshold, setConfidenceThreshold] = useState<number>(DEFAULT_CONFIDENCE_THRESHOLD)
+  // Piece-letter language: picked by the user, or 'auto' for the detected one
+  const [notationOverride, setNotationOverride] = useState<NotationChoice | 'auto'>('auto')
+  const [detectedNotation, setDetectedNotation] = useState<NotationChoice | null>(null)
+  // Column blocks the move list was read in, shown so a misread layout is noticed
+  const [sheetLayout, setSheetLayout] = useState<SheetLayout | null>(null)
+  // Name of the known sheet design the sheet was matched to, if any
+  const [sheetTemplate, setSheetTemplate] = useState<string | null>(null)
+  // Last results of each page, kept so the sheets can be read again in another notation or order
+  const resultsRef = useRef<any[] | null>(null)
   const contextMenuRef = useRef<HTMLDivElement>(null)
 
-  // Cleanup polling on unmount or status change
+  // Stop following jobs on unmount
   useEffect(() => {
     return () => {
       pollingCancelledRef.current = true
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current)
-      }
     }
   }, [])
 
@@ -83,14 +439,24 @@ export default function ConvertPage() {
     cameraInputRef.current?.click()
   }
 
+  const handleUploadFolderClick = () => {
+    folderInputRef.current?.click()
+  }
+
+  // Folder picking is not in React's input attributes
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '')
+  }, [])
+
   // Transform moves array into paired format with validation status
-  const transformMovesToPairs = useCallback((moves: string[], corrections: any[] = []) => {
+  const transformMovesToPairs = useCallback((moves: string[], corrections: any[] = [], sources: MoveSource[] = [], marks: RepairMark[] = []) => {
     const pairs: MoveData[] = []
-    const correctionMap = new Map<string, { corrected: string | null, error?: string, original: string }>()
+    const correctionMap = new Map<number, { corrected: string | null, error?: string, original: string, suggestions: MoveSuggestion[] }>()
     
     // Filter out header words and invalid entries
     const headerWords = ['WHITE', 'BLACK', 'MOVE', 'ROUND', 'RESULT', 'DATE', 'EVENT', 'TOURNAMENT', 'SITE', 'PLAYER']
-    const filteredMoves = moves.filter(move => {
+    const keptIndices = moves.map((_, index) => index).filter(index => {
+      const move = moves[index]
       const upperMove = move.trim().toUpperCase()
       // Skip if it's a header word
       if (headerWords.includes(upperMove)) return false
@@ -100,22 +466,19 @@ export default function ConvertPage() {
       if (/^\d+$/.test(move.trim())) return false
       return true
     })
+    const filteredMoves = keptIndices.map(index => moves[index])
+    const filteredSources = keptIndices.map(index => sources[index])
+    const filteredMarks = keptIndices.map(index => marks[index] || {})
     
-    // Build correction map for quick lookup - map both original and corrected moves
+    // Build correction map for quick lookup, by position in the repaired move list
+    // (the Lambda's correctedMoves, which `moves` lines up with once its repairs are applied)
     corrections.forEach(correction => {
-      correctionMap.set(correction.original, {
+      correctionMap.set(correction.index, {
         corrected: correction.corrected,
         error: correction.error,
-        original: correction.original
+        original: correction.original,
+        suggestions: correction.suggestions || []
       })
-      // Also map the corrected move back to the original for lookup
-      if (correction.corrected) {
-        correctionMap.set(correction.corrected, {
-          corrected: correction.corrected,
-          error: correction.error,
-          original: correction.original
-        })
-      }
     })
     
     // Pair moves: even index = white, odd index = black
@@ -125,77 +488,289 @@ export default function ConvertPage() {
       const moveNumber = Math.floor(i / 2) + 1
       
       // Check validation status - if move is in corrections, check if it has error
-      const whiteCorrection = correctionMap.get(whiteMove)
-      const blackCorrection = blackMove ? correctionMap.get(blackMove) : null
+      // Guessed half-moves are not OCR text, so they never match a correction
+      const whiteMark = filteredMarks[i]
+      const blackMark = blackMove ? filteredMarks[i + 1] : {}
+      const whiteCorrection = whiteMark.inserted ? undefined : correctionMap.get(keptIndices[i])
+      const blackCorrection = blackMove && !blackMark.inserted ? correctionMap.get(keptIndices[i + 1]) : null
       
       // A move is valid if:
       // 1. It's not in corrections (was valid from start), OR
       // 2. It's in corrections but has no error (was corrected successfully)
       const whiteValid = !whiteCorrection || !whiteCorrection.error
       const blackValid = !blackMove || !blackCorrection || !blackCorrection.error
+      // A corrected move is shown (and played) as corrected, with the OCR text kept beside it
+      const whiteCorrected = whiteCorrection?.corrected && whiteCorrection.corrected !== whiteMove ? whiteCorrection.corrected : null
+      const blackCorrected = blackMove && blackCorrection?.corrected && blackCorrection.corrected !== blackMove ? blackCorrection.corrected : null
       
       pairs.push({
         moveNumber,
-        white: whiteMove,
-        black: blackMove,
+        white: whiteCorrected || whiteMove,
+        black: blackCorrected || blackMove,
         whiteValid: whiteValid,
         blackValid: blackValid,
         whiteError: whiteCorrection?.error || null,
         blackError: blackCorrection?.error || null,
-        whiteOriginal: whiteCorrection && whiteCorrection.original !== whiteMove ? whiteCorrection.original : undefined,
-        blackOriginal: blackCorrection && blackCorrection.original !== blackMove ? blackCorrection.original : undefined
+        whiteOriginal: whiteCorrected ? whiteMove : undefined,
+        blackOriginal: blackMove && blackCorrected ? blackMove : undefined,
+        whiteSuggestions: whiteMark.suggestions || whiteCorrection?.suggestions,
+        blackSuggestions: blackMark.suggestions || blackCorrection?.suggestions,
+        whiteSource: filteredSources[i],
+        blackSource: blackMove ? filteredSources[i + 1] : undefined,
+        whiteInserted: whiteMark.inserted,
+        blackInserted: blackMark.inserted,
+        whiteDropped: whiteMark.dropped,
+        blackDropped: blackMark.dropped
       })
     }
     
     return pairs
   }, [])
 
-  // Validate move using chess.js
-  const validateMoveOnBoard = useCallback((moveText: string, gameHistory: string[]) => {
-    try {
-      const board = new Chess()
-      // Replay all previous moves
-      for (const move of gameHistory) {
-        const result = board.move(move)
-        if (!result) return { valid: false, error: 'Invalid move in history' }
+  /**
+   * Turn stored OCR/Lambda results into the moves table, reading the sheet in
+   * the given notation (or the detected one for 'auto')
+   * A continuation page (read from `startFen`, where the pages before it end) was checked
+   * by the Lambda from the starting position, so its corrections and repairs are left out,
+   * its descriptive or long algebraic moves are converted again from `startFen`, and its
+   * moves are checked once the pages are joined.
+   */
+  const readResults = useCallback((results: any, override: NotationChoice | 'auto', startFen?: string) => {
+    const continuation = startFen !== undefined
+    const page = sheetPage(results)
+    const cells = page.tables.flatMap(table => table.cells)
+    // Debug: Log sample cells to see what we're working with
+    if (cells.length > 0) {
+      console.log('📋 Sample cells:', cells.slice(0, 5).map(cell => ({
+        text: cell.text.substring(0, 50),
+        row: cell.row,
+        column: cell.column
+      })));
+    }
+    
+    // Process the results
+    // Use ORIGINAL moves from OCR (not corrected) for display - user wants to see actual OCR text.
+    // The Lambda reads them in English SAN; another notation picked by the user means
+    // reading the sheet here instead, and checking the moves on the board without the Lambda.
+    const lambdaNotation: NotationChoice = results.chessValidation?.notationSystem === 'descriptive'
+      ? 'descriptive'
+      : results.chessValidation?.notationLanguage || 'en'
+    const fromLambda = !!results.chessValidation?.originalMoves?.length &&
+      (override === 'auto' || override === lambdaNotation)
+    let parsed;
+    if (fromLambda) {
+      // Use original OCR moves for display
+      console.log('✅ Using original OCR moves from Lambda:', {
+        total: results.chessValidation.originalMoves.length,
+        valid: results.chessValidation.stats?.valid || 0,
+        corrected: results.chessValidation.stats?.corrected || 0,
+        invalid: results.chessValidation.stats?.invalid || 0,
+        sampleMoves: results.chessValidation.originalMoves.slice(0, 10)
+      });
+      
+      // Create parsed game with original OCR moves
+      const baseParsed = parseScoreSheet(page, parseOptionsFor(lambdaNotation));
+      const sheetMoves: string[] | undefined = results.chessValidation.sheetMoves
+      const convert = lambdaNotation === 'descriptive' ? convertDescriptiveGame : convertLongAlgebraicGame
+      
+      // Use original moves for display (user wants to see actual OCR text)
+      parsed = {
+        ...baseParsed,
+        moves: continuation && sheetMoves ? convert(sheetMoves, startFen) : results.chessValidation.originalMoves,
+        sheetMoves
+      };
+    } else {
+      // Fallback to parsing the page
+      console.log('⚠️ No validated moves found, parsing the page...', {
+        words: page.words.length,
+        lines: page.lines.length,
+        hasTableStructure: page.tables.length > 0
+      });
+      parsed = parseScoreSheet(page, { ...(override === 'auto' ? {} : parseOptionsFor(override)), startFen });
+      
+      // If still no moves, try to extract from raw text
+      if (parsed.moves.length === 0 && parsed.rawText) {
+        console.log('⚠️ No moves extracted from the page, trying raw text extraction...', {
+          rawTextLength: parsed.rawText.length,
+          rawTextSample: parsed.rawText.substring(0, 200)
+        });
+        // Try extracting moves from raw text as last resort
+        const textMoves = matchStandaloneMoves(toEnglishNotation(parsed.rawText, parsed.notationLanguage || 'en')) || [];
+        if (textMoves.length > 0) {
+          console.log('✅ Found moves in raw text:', textMoves.slice(0, 10));
+          parsed.moves = textMoves;
+        }
       }
-      // Try the new move
-      const result = board.move(moveText)
-      return result ? { valid: true } : { valid: false, error: 'Invalid move' }
-    } catch (err: any) {
-      return { valid: false, error: err.message || 'Invalid move' }
     }
-  }, [])
+    
+    console.log('📊 Parsed game:', {
+      movesCount: parsed.moves.length,
+      moves: parsed.moves.slice(0, 10),
+      wordCount: page.words.length,
+      rawTextLength: parsed.rawText?.length || 0
+    });
+    
+    // Warn if no moves found
+    if (parsed.moves.length === 0) {
+      console.error('❌ No moves extracted!', {
+        wordCount: page.words.length,
+        hasChessValidation: !!results.chessValidation,
+        hasTableStructure: page.tables.length > 0,
+        rawText: parsed.rawText?.substring(0, 500),
+        sampleCells: cells.slice(0, 10).map(cell => ({
+          text: cell.text,
+          row: cell.row,
+          col: cell.column
+        }))
+      });
+    } else {
+      console.log('✅ Moves extracted successfully!', {
+        totalMoves: parsed.moves.length,
+        first10Moves: parsed.moves.slice(0, 10),
+        last10Moves: parsed.moves.slice(-10)
+      });
+    }
+    
+    // Transform moves into pairs for moves table
+    const corrections = fromLambda && !continuation ? results.chessValidation.corrections || [] : []
+    // Link each move back to the cell it was read from on the score sheet
+    const moveSources = locateMoveSources(page, parsed.sheetMoves || parsed.moves, parsed.notationLanguage)
+    // Lambda confidences line up with its originalMoves when the sheet could not be aligned here
+    const moveConfidences: Array<number | null> = fromLambda ? results.chessValidation.moveConfidences || [] : []
+    moveSources.forEach((source, index) => {
+      if (source.confidence === undefined && typeof moveConfidences[index] === 'number') {
+        source.confidence = moveConfidences[index] as number
+      }
+    })
+    // Moves not written in SAN keep their sheet form, shown beside the SAN
+    parsed.sheetMoves?.forEach((written: string, index: number) => {
+      if (moveSources[index] && written !== parsed.moves[index]) moveSources[index].written = written
+    })
+    // Take out tokens the Lambda dropped and put in the half-moves it found missing
+    const repairs: MoveRepair[] = fromLambda && !continuation ? results.chessValidation.repairs || [] : []
+    const repaired = applyRepairs(parsed.moves, moveSources, repairs)
+    const pairedMoves = transformMovesToPairs(repaired.moves, corrections, repaired.sources, repaired.marks)
+    const transformedMoves = fromLambda || continuation ? pairedMoves : pairHalfMoves(revalidateHalfMoves(flattenMoves(pairedMoves), 0))
+    const invalidCount = countInvalidMoves(transformedMoves)
+
+    console.log('📊 Moves transformed:', {
+      totalPairs: transformedMoves.length,
+      invalidMoves: invalidCount
+    })
+
+    // What automatic detection chose, shown next to the notation picker
+    const detectedNotation: NotationChoice = results.chessValidation?.originalMoves?.length
+      ? lambdaNotation
+      : detectSheetSystem(page) === 'descriptive' ? 'descriptive' : detectSheetLanguage(page)
+
+    return { parsed, moves: transformedMoves, invalidCount, detectedNotation }
+  }, [transformMovesToPairs])
 
-  const processFile = async (file: File) => {
+  /**
+   * Read every page and join them into one game. Pages after the first are read and checked on
+   * the board from where the page before them ends, and against their move numbers.
+   */
+  const readPages = useCallback((pageResults: any[], override: NotationChoice | 'auto') => {
+    const readings: ReturnType<typeof readResults>[] = []
+    const pageHalfMoves: HalfMove[][] = []
+    pageResults.forEach((results, page) => {
+      const startFen = page > 0 ? continuationPosition(pageHalfMoves.flat().map(halfMove => halfMove.text)) : undefined
+      const reading = readResults(results, override, startFen)
+      readings.push(reading)
+      pageHalfMoves.push(
+        flattenMoves(reading.moves).map(halfMove => ({ ...halfMove, source: { ...halfMove.source, page } }))
+      )
+    })
+    const halfMoves = readings.length > 1
+      ? revalidateHalfMoves(pageHalfMoves.flat(), pageHalfMoves[0].length)
+      : pageHalfMoves[0]
+    const moves = pairHalfMoves(halfMoves)
+    const issues = checkPageContinuity(readings.map((reading, index) => ({
+      halfMoves: pageHalfMoves[index].length,
+      firstMove: firstMoveOfPage(reading.parsed.layout)
+    })))
+
+    // Players, event and layout come from the first page
+    const [first] = readings
+    return {
+      parsed: { ...first.parsed, rawText: readings.map(reading => reading.parsed.rawText).join('\n\n') },
+      moves,
+      invalidCount: countInvalidMoves(moves),
+      detectedNotation: first.detectedNotation,
+      issues
+    }
+  }, [readResults])
+
+  // Show the moves read from the pages, ready for review
+  const showPages = useCallback((pageResults: any[]) => {
+    resultsRef.current = pageResults
+    const { parsed, moves, invalidCount, detectedNotation: detected, issues } = readPages(pageResults, notationOverride)
+
+    setExtractedText(parsed.rawText)
+    setDetectedNotation(detected)
+    setSheetLayout(parsed.layout || null)
+    setSheetTemplate(parsed.template ? findTemplate(parsed.template)?.name || null : null)
+    setGameMetadata(parsed.metadata)
+    setMovesData(moves)
+    setInvalidMovesCount(invalidCount)
+    setPageIssues(issues)
+    setEditableMove(null)
+    setSelectedMove(null)
+    setStatus('validated')
+    setProgress(100)
+  }, [notationOverride, readPages])
+
+  const processPages = async (sheets: SheetUpload[]) => {
     try {
       // Reset cancellation flag
       pollingCancelledRef.current = false
       setError(null)
-      setStatus('uploading')
-      setProgress(0)
+      setShownPage(0)
 
-      // Create preview
-      const previewUrl = URL.createObjectURL(file)
-      setImagePreview(previewUrl)
+      const pageResults: any[] = []
+      for (let index = 0; index < sheets.length; index++) {
+        setCurrentPage(index)
+        setStatus(LOCAL_OCR ? 'processing' : 'uploading')
+        setProgress(LOCAL_OCR ? 50 : 0)
+        setJobStatus(null)
 
-      // Upload to S3
-      const key = await uploadImage(file)
-      console.log('📤 File uploaded successfully. Key:', key)
-      console.log('💡 Lambda should be triggered automatically. Check CloudWatch logs if processing fails.')
-      
-      // Check if cancelled during upload
-      if (pollingCancelledRef.current) {
-        return
+        if (LOCAL_OCR) {
+          const results = await recognizeLocally(sheets[index].file)
+          if (pollingCancelledRef.current) return
+          pageResults.push(results)
+          continue
+        }
+
+        // Upload to S3
+        const key = await uploadImage(sheets[index].file)
+        console.log('📤 File uploaded successfully. Key:', key)
+        console.log('💡 Lambda should be triggered automatically. Check CloudWatch logs if processing fails.')
+
+        // Check if cancelled during upload
+        if (pollingCancelledRef.current) {
+          return
+        }
+
+        setUploadedKey(key)
+        setProgress(50)
+        setStatus('processing')
+
+        // Follow the Lambda through the job API until the page's results are saved
+        const job = await createJob(key)
+        setJobStatus(job.status)
+        const results = await watchJob(job.id, {
+          onStatus: stage => {
+            setJobStatus(stage)
+            setProgress(jobStages[stage].progress)
+          },
+          isCancelled: () => pollingCancelledRef.current
+        })
+        if (!results) return
+        pageResults.push(results)
       }
-      
-      setUploadedKey(key)
-      setProgress(50)
-      setStatus('processing')
 
-      // Poll for results
-      console.log('🔄 Starting to poll for results. Expected result path:', `results/${key}.json`)
-      await pollForResults(key)
+      showPages(pageResults)
+      console.log('✅ Processing complete! Moves ready for validation.')
     } catch (err: any) {
       // Only set error if not cancelled
       if (!pollingCancelledRef.current) {
@@ -206,375 +781,199 @@ export default function ConvertPage() {
     }
   }
 
-  const pollForResults = async (key: string, maxAttempts = 90) => {
-    console.log('🔄 Starting to poll for results:', { key, maxAttempts })
-    
-    // Set a hard timeout of 200 seconds total (Lambda timeout is 180s, add buffer)
-    const hardTimeout = 200000 // 200 seconds
-    const startTime = Date.now()
-    
-    const timeoutId = setTimeout(() => {
-      if (!pollingCancelledRef.current) {
-        pollingCancelledRef.current = true
-        const elapsed = Math.round((Date.now() - startTime) / 1000)
-        console.error('⏱️ Hard timeout reached after', elapsed, 'seconds')
-        const debugInfo = `\n\nDebug Info:\n- Uploaded key: ${key}\n- Expected results path: results/${key}.json\n- Check CloudWatch logs: AWS Console → Lambda → S3Triggerc8c93dc4-dev → Logs\n- See DEBUG_LAMBDA.md for detailed troubleshooting steps`
-        setError(
-          `Processing timeout after ~${elapsed} seconds. ` +
-          'The Lambda function may not be processing the image.\n\n' +
-          'Possible causes:\n' +
-          '1. Lambda function not triggered - Check if the S3 trigger is configured\n' +
-          '2. Lambda function failing - Check CloudWatch logs for errors\n' +
-          '3. Missing permissions - Lambda needs Textract and S3 permissions\n' +
-          '4. Lambda timeout - Check Lambda function timeout settings (should be 180s)\n\n' +
-          'To debug:\n' +
-          '1. Check CloudWatch logs for Lambda function: ' + 
-          'AWS Console → Lambda → Your function → Logs\n' +
-          '2. Verify S3 trigger is configured: ' +
-          'AWS Console → S3 → Your bucket → Properties → Event notifications\n' +
-          '3. Check Lambda permissions: ' +
-          'AWS Console → Lambda → Your function → Configuration → Permissions' +
-          debugInfo
-        )
-        setStatus('error')
-        setProgress(0)
-      }
-    }, hardTimeout)
-    
-    timeoutRef.current = timeoutId
-    
-    try {
-      for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        // Check if cancelled before each attempt
-        if (pollingCancelledRef.current) {
-          console.log('🛑 Polling cancelled')
-          clearTimeout(timeoutId)
-          return
-        }
-        
-        // Check if hard timeout reached
-        if (Date.now() - startTime >= hardTimeout) {
-          console.log('⏱️ Hard timeout reached during polling')
-          clearTimeout(timeoutId)
-          return
-        }
-        
-        try {
-          // Call getResults directly from client-side instead of using API route
-          // This ensures we can use Amplify Storage with guest credentials
-          try {
-            const results = await getResults(key)
-            
-            // Check if cancelled during getResults
-            if (pollingCancelledRef.current) {
-              clearTimeout(timeoutId)
-              return
-            }
-            
-            console.log('✅ Results received:', {
-              hasBlocks: !!results.Blocks,
-              hasblocks: !!results.blocks,
-              blockCount: results.Blocks?.length || results.blocks?.length || 0,
-              hasChessValidation: !!results.chessValidation,
-              hasCorrectedMoves: !!(results.chessValidation?.correctedMoves?.length),
-              correctedMovesCount: results.chessValidation?.correctedMoves?.length || 0,
-              resultKeys: Object.keys(results)
-            })
-            
-            // Debug: Log sample blocks to see what we're working with
-            const blocks = results.Blocks || results.blocks || [];
-            if (blocks.length > 0) {
-              const sampleBlocks = blocks.slice(0, 5);
-              console.log('📋 Sample blocks:', sampleBlocks.map((b: any) => ({
-                type: b.BlockType,
-                text: b.Text?.substring(0, 50),
-                rowIndex: b.RowIndex,
-                columnIndex: b.ColumnIndex
-              })));
-            }
-            
-            // Process the results
-            // Use ORIGINAL moves from OCR (not corrected) for display - user wants to see actual OCR text
-            let parsed;
-            if (results.chessValidation && results.chessValidation.originalMoves && results.chessValidation.originalMoves.length > 0) {
-              // Use original OCR moves for display
-              console.log('✅ Using original OCR moves from Lambda:', {
-                total: results.chessValidation.originalMoves.length,
-                valid: results.chessValidation.stats?.valid || 0,
-                corrected: results.chessValidation.stats?.corrected || 0,
-                invalid: results.chessValidation.stats?.invalid || 0,
-                sampleMoves: results.chessValidation.originalMoves.slice(0, 10)
-              });
-              
-              // Create parsed game with original OCR moves
-              const textractResponse = {
-                Blocks: results.Blocks || results.blocks || [],
-              };
-              const baseParsed = parseTextractResponse(textractResponse);
-              
-              // Use original moves for display (user wants to see actual OCR text)
-              parsed = {
-                ...baseParsed,
-                moves: results.chessValidation.originalMoves
-              };
-            } else {
-              // Fallback to parsing blocks
-              console.log('⚠️ No validated moves found, parsing blocks...', {
-                hasBlocks: blocks.length > 0,
-                blockTypes: [...new Set(blocks.map((b: any) => b.BlockType))],
-                hasTableStructure: blocks.some((b: any) => b.BlockType === 'TABLE' || b.BlockType === 'CELL')
-              });
-              const textractResponse = {
-                Blocks: results.Blocks || results.blocks || [],
-              };
-              parsed = parseTextractResponse(textractResponse);
-              
-              // If still no moves, try to extract from raw text
-              if (parsed.moves.length === 0 && parsed.rawText) {
-                console.log('⚠️ No moves extracted from blocks, trying raw text extraction...', {
-                  rawTextLength: parsed.rawText.length,
-                  rawTextSample: parsed.rawText.substring(0, 200)
-                });
-                // Try extracting moves from raw text as last resort
-                const textMoves = parsed.rawText.match(/\b([a-h][1-8]|O-O|O-O-O|[NBRQK][a-h]?[1-8]?x?[a-h][1-8])\b/g) || [];
-                if (textMoves.length > 0) {
-                  console.log('✅ Found moves in raw text:', textMoves.slice(0, 10));
-                  parsed.moves = textMoves;
-                }
-              }
-            }
-            
-            console.log('📊 Parsed game:', {
-              movesCount: parsed.moves.length,
-              moves: parsed.moves.slice(0, 10),
-              hasBlocks: blocks.length > 0,
-              blockCount: blocks.length,
-              rawTextLength: parsed.rawText?.length || 0
-            });
-            
-            // Warn if no moves found
-            if (parsed.moves.length === 0) {
-              console.error('❌ No moves extracted!', {
-                hasBlocks: blocks.length > 0,
-                hasChessValidation: !!results.chessValidation,
-                blockTypes: [...new Set(blocks.map((b: any) => b.BlockType))],
-                rawText: parsed.rawText?.substring(0, 500),
-                sampleCells: blocks.filter((b: any) => b.BlockType === 'CELL').slice(0, 10).map((b: any) => ({
-                  text: b.Text,
-                  row: b.RowIndex,
-                  col: b.ColumnIndex
-                }))
-              });
-            } else {
-              console.log('✅ Moves extracted successfully!', {
-                totalMoves: parsed.moves.length,
-                first10Moves: parsed.moves.slice(0, 10),
-                last10Moves: parsed.moves.slice(-10)
-              });
-            }
-            
-            // Transform moves into pairs for moves table
-            const corrections = results.chessValidation?.corrections || []
-            const transformedMoves = transformMovesToPairs(parsed.moves, corrections)
-            const invalidCount = transformedMoves.reduce((count, move) => {
-              if (!move.whiteValid) count++
-              if (move.black && !move.blackValid) count++
-              return count
-            }, 0)
-
-            console.log('📊 Moves transformed:', {
-              totalPairs: transformedMoves.length,
-              invalidMoves: invalidCount
-            })
-
-            clearTimeout(timeoutId)
-            setExtractedText(parsed.rawText)
-            setMovesData(transformedMoves)
-            setInvalidMovesCount(invalidCount)
-            setStatus('validated')
-            setProgress(100)
-            console.log('✅ Processing complete! Moves ready for validation.')
-            return
-          } catch (resultsError: any) {
-            // Check if cancelled
-            if (pollingCancelledRef.current) {
-              clearTimeout(timeoutId)
-              return
-            }
-            
-            // Check if it's a "not found" error (still processing)
-            if (resultsError.message === 'Results not found' || resultsError.message?.includes('not found')) {
-              // Aggressive polling strategy for fast response:
-              // - First 10 attempts: 500ms (5 seconds total) - catches quick processing
-              // - Next 15 attempts: 1 second (15 seconds total) - normal processing
-              // - Remaining attempts: 2 seconds - slow processing or timeout
-              
-              let pollInterval: number
-              if (attempt < 10) {
-                pollInterval = 500 // 500ms for first 10 attempts (5 seconds)
-              } else if (attempt < 25) {
-                pollInterval = 1000 // 1 second for next 15 attempts (15 seconds)
-              } else {
-                pollInterval = 2000 // 2 seconds for remaining attempts
-              }
-              
-            console.log(`⏳ Results not found yet (attempt ${attempt + 1}/${maxAttempts}, next poll in ${pollInterval}ms)`)
-            console.log(`   Looking for: results/${key}.json`)
-            if (attempt === 0) {
-              console.log('💡 Tip: Check CloudWatch logs to see if Lambda is processing the image')
-              console.log('   AWS Console → Lambda → S3Triggerc8c93dc4-dev → Logs')
-            }
-            
-            // Still processing, wait and retry
-            if (attempt < maxAttempts - 1) {
-                await new Promise((resolve) => {
-                  const timeout = setTimeout(resolve, pollInterval)
-                  timeoutRef.current = timeout
-                })
-                
-                // Check if cancelled during wait
-                if (pollingCancelledRef.current) {
-                  clearTimeout(timeoutId)
-                  return
-                }
-                
-                // Progress calculation: 50% base + 40% based on attempts (capped at 90%)
-                setProgress(Math.min(50 + (attempt / maxAttempts) * 40, 90))
-                continue
-              }
-            } else {
-              // Other error (credentials, etc.)
-              console.error(`❌ Error getting results (attempt ${attempt + 1}/${maxAttempts}):`, resultsError)
-              
-              // If this is the last attempt, show error
-              if (attempt === maxAttempts - 1) {
-                clearTimeout(timeoutId)
-                if (!pollingCancelledRef.current) {
-                  setError(`Processing error: ${resultsError.message || 'Failed to get results'}`)
-                  setStatus('error')
-                }
-                return
-              }
-              
-              // Otherwise, wait and continue polling (might be temporary)
-              // Use longer interval for errors to avoid hammering the API
-              await new Promise((resolve) => {
-                const timeout = setTimeout(resolve, 2000)
-                timeoutRef.current = timeout
-              })
-              
-              // Check if cancelled during wait
-              if (pollingCancelledRef.current) {
-                clearTimeout(timeoutId)
-                return
-              }
-              
-              setProgress(50 + (attempt / maxAttempts) * 40)
-              continue
-            }
-          }
-        } catch (err: any) {
-          // Check if cancelled
-          if (pollingCancelledRef.current) {
-            clearTimeout(timeoutId)
-            return
-          }
-          
-          console.error(`❌ Error polling (attempt ${attempt + 1}/${maxAttempts}):`, err)
-          
-          // If this is the last attempt, show error
-          if (attempt === maxAttempts - 1) {
-            clearTimeout(timeoutId)
-            if (!pollingCancelledRef.current) {
-              setError(`Failed to check processing status: ${err.message || 'Unknown error'}`)
-              setStatus('error')
-            }
-            return
-          }
-          
-          // Otherwise, wait and continue polling
-          await new Promise((resolve) => {
-            const timeout = setTimeout(resolve, 2000)
-            timeoutRef.current = timeout
-          })
-          
-          // Check if cancelled during wait
-          if (pollingCancelledRef.current) {
-            clearTimeout(timeoutId)
-            return
-          }
-          
-          setProgress(50 + (attempt / maxAttempts) * 40)
+  // Files picked together are taken in name order ("sheet-2" before "sheet-10")
+  const addPages = (files: FileList | null) => {
+    const added = Array.from(files || [])
+      .filter(file => file.type.startsWith('image/'))
+      .sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name, undefined, { numeric: true }))
+      .map(file => ({ file, preview: URL.createObjectURL(file) }))
+    if (added.length > 0) {
+      setPages(current => [...current, ...added])
+      setError(null)
+    }
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addPages(e.target.files)
+    // Let the same photo be picked again after it was removed
+    e.target.value = ''
+  }
+
+  const handleCameraChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addPages(e.target.files)
+    e.target.value = ''
+  }
+
+  // A folder holds the sheets of a round
+  const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addPages(e.target.files)
+    setUploadMode('round')
+    e.target.value = ''
+  }
+
+  const handleDropPages = (e: React.DragEvent) => {
+    e.preventDefault()
+    if (status === 'idle' || status === 'error') addPages(e.dataTransfer.files)
+  }
+
+  const handleRemovePage = (index: number) => {
+    URL.revokeObjectURL(pages[index].preview)
+    setPages(pages.filter((_, i) => i !== index))
+  }
+
+  // Move a page up or down; once read, the game is joined again and edits to the moves are discarded
+  const handleMovePage = (index: number, offset: -1 | 1) => {
+    const target = index + offset
+    if (target < 0 || target >= pages.length) return
+
+    const swap = <T,>(items: T[]): T[] => {
+      const reordered = [...items]
+      ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+      return reordered
+    }
+    setPages(swap(pages))
+    if (!resultsRef.current) return
+
+    showPages(swap(resultsRef.current))
+    setShownPage(target)
+  }
+
+  const updateBatchSheet = (id: string, update: Partial<BatchSheet>) => {
+    setBatch(current => current.map(sheet => (sheet.id === id ? { ...sheet, ...update } : sheet)))
+  }
+
+  /**
+   * Convert each sheet as a game of its own, one after another in the background.
+   * Sheets can be reviewed as soon as they are read.
+   */
+  const processRound = async (sheets: SheetUpload[]) => {
+    batchCancelledRef.current = false
+    const queue: BatchSheet[] = sheets.map((upload, index) => ({
+      id: `${Date.now()}-${index}`,
+      name: upload.file.name,
+      status: 'queued',
+      upload
+    }))
+    setBatch(queue)
+    setPages([])
+    setError(null)
+    setStatus('processing')
+
+    for (const sheet of queue) {
+      if (batchCancelledRef.current) return
+      try {
+        if (LOCAL_OCR) {
+          updateBatchSheet(sheet.id, { status: 'processing' })
+          const results = await recognizeLocally(sheet.upload.file)
+          if (batchCancelledRef.current) return
+          updateBatchSheet(sheet.id, { status: 'review', results })
+          continue
         }
-      }
 
-      // Timeout after all attempts
-      clearTimeout(timeoutId)
-      const elapsed = Math.round((Date.now() - startTime) / 1000)
-      console.error('⏱️ Processing timeout after', maxAttempts, 'attempts (~' + elapsed + ' seconds)')
-      
-      if (!pollingCancelledRef.current) {
-        const debugInfo = `\n\nDebug Info:\n- Uploaded key: ${key}\n- Expected results path: results/${key}.json\n- Check CloudWatch logs: AWS Console → Lambda → S3Triggerc8c93dc4-dev → Logs\n- See DEBUG_LAMBDA.md for detailed troubleshooting steps`
-        setError(
-          `Processing timeout after ~${elapsed} seconds. ` +
-          'The Lambda function may not be processing the image.\n\n' +
-          'Possible causes:\n' +
-          '1. Lambda function not triggered - Check if the S3 trigger is configured\n' +
-          '2. Lambda function failing - Check CloudWatch logs for errors\n' +
-          '3. Missing permissions - Lambda needs Textract and S3 permissions\n' +
-          '4. Lambda timeout - Check Lambda function timeout settings (should be 180s)\n\n' +
-          'To debug:\n' +
-          '1. Check CloudWatch logs for Lambda function: ' + 
-          'AWS Console → Lambda → Your function → Logs\n' +
-          '2. Verify S3 trigger is configured: ' +
-          'AWS Console → S3 → Your bucket → Properties → Event notifications\n' +
-          '3. Check Lambda permissions: ' +
-          'AWS Console → Lambda → Your function → Configuration → Permissions' +
-          debugInfo
-        )
-        setStatus('error')
-        setProgress(0)
+        updateBatchSheet(sheet.id, { status: 'uploading' })
+        const key = await uploadImage(sheet.upload.file)
+        if (batchCancelledRef.current) return
+
+        updateBatchSheet(sheet.id, { status: 'processing' })
+        const job = await createJob(key)
+        const results = await watchJob(job.id, { isCancelled: () => batchCancelledRef.current })
+        if (!results) return
+        updateBatchSheet(sheet.id, { status: 'review', results })
+      } catch (err: any) {
+        console.error('Error processing sheet:', sheet.name, err)
+        updateBatchSheet(sheet.id, { status: 'failed', error: err.message || 'Failed to process image' })
       }
-    } finally {
-      // Ensure timeout is cleared
-      clearTimeout(timeoutId)
-      timeoutRef.current = null
     }
   }
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      processFile(file)
+  // Open a sheet of the round for review, with its earlier review if it has one
+  const openBatchSheet = useCallback((id: string) => {
+    const sheet = batch.find(candidate => candidate.id === id)
+    if (!sheet?.results) return
+
+    setActiveBatchId(id)
+    setPages([sheet.upload])
+    setShownPage(0)
+    setError(null)
+    setContextMenu(null)
+    setPgnOutput('')
+    showPages([sheet.results])
+    if (sheet.review) {
+      setMovesData(sheet.review.moves)
+      setInvalidMovesCount(countInvalidMoves(sheet.review.moves))
+      setGameMetadata(sheet.review.metadata)
     }
+  }, [batch, showPages])
+
+  const handleNextBatchSheet = () => {
+    const next = batch.find(sheet => sheet.status === 'review' && sheet.id !== activeBatchId)
+    if (next) {
+      openBatchSheet(next.id)
+      return
+    }
+    // Wait for the next sheet to be read; it opens as soon as it is
+    setActiveBatchId(null)
+    setPages([])
+    setStatus('processing')
   }
 
-  const handleCameraChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      processFile(file)
+  // Review the next sheet as soon as one is read while nothing is open
+  useEffect(() => {
+    if (activeBatchId || status !== 'processing' || batch.length === 0) return
+    const ready = batch.find(sheet => sheet.status === 'review')
+    if (ready) {
+      openBatchSheet(ready.id)
+    } else if (batch.every(sheet => sheet.status === 'done' || sheet.status === 'failed')) {
+      setError('None of the remaining sheets could be read. Hover over a failed sheet to see why.')
+      setStatus('error')
+    }
+  }, [batch, activeBatchId, status, openBatchSheet])
+
+  // Every reviewed game of the round in one PGN database
+  const handleDownloadRound = (options: PGNDatabaseOptions) => {
+    const games = batch.flatMap(sheet => (sheet.status === 'done' && sheet.game ? [sheet.game] : []))
+    if (games.length === 0) return
+
+    const pgn = convertToPGNDatabase(games, options)
+    const { valid, errors } = validatePGN(pgn)
+    if (!valid) {
+      setError(describePGNErrors(errors))
+      return
     }
+    downloadPGN(pgn, `round-${Date.now()}.pgn`)
   }
 
   const handleDownloadPGN = () => {
     if (pgnOutput) {
+      const { valid, errors } = validatePGN(pgnOutput)
+      if (!valid) {
+        setError(describePGNErrors(errors))
+        return
+      }
       const filename = `chess-game-${Date.now()}.pgn`
       downloadPGN(pgnOutput, filename)
     }
   }
 
   const handleReset = () => {
-    // Cancel any ongoing polling
+    // Stop following any job in progress
     pollingCancelledRef.current = true
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current)
-      timeoutRef.current = null
-    }
     
+    batchCancelledRef.current = true
+
     setStatus('idle')
     setUploadedKey(null)
-    setImagePreview(null)
+    pages.forEach(page => URL.revokeObjectURL(page.preview))
+    batch.forEach(sheet => URL.revokeObjectURL(sheet.upload.preview))
+    setPages([])
+    setBatch([])
+    setActiveBatchId(null)
+    setUploadMode('game')
+    setCurrentPage(0)
+    setShownPage(0)
+    setPageIssues([])
     setExtractedText('')
+    setGameMetadata({})
     setPgnOutput('')
     setError(null)
     setProgress(0)
@@ -589,6 +988,31 @@ export default function ConvertPage() {
     setEditableMove(null)
     setContextMenu(null)
     setEditedMoveValue('')
+    setSelectedMove(null)
+    setHoveredMove(null)
+    setShowAllBoxes(false)
+    setDetectedNotation(null)
+    setSheetLayout(null)
+    setSheetTemplate(null)
+    resultsRef.current = null
+  }
+
+  // Read the sheet again in another notation; edits made to the moves are discarded
+  const handleNotationChange = (value: NotationChoice | 'auto') => {
+    setNotationOverride(value)
+    if (!resultsRef.current) return
+
+    const { moves, invalidCount, issues } = readPages(resultsRef.current, value)
+    setMovesData(moves)
+    setInvalidMovesCount(invalidCount)
+    setPageIssues(issues)
+    setEditableMove(null)
+    setSelectedMove(null)
+  }
+
+  // Handle click to show the move on the board
+  const handleMoveClick = (moveNumber: number, color: 'white' | 'black') => {
+    setSelectedMove({ moveNumber, color })
   }
 
   // Handle double-click to edit
@@ -597,6 +1021,7 @@ export default function ConvertPage() {
     if (!move) return
     
     setEditableMove({ moveNumber, color })
+    setSelectedMove({ moveNumber, color })
     setEditedMoveValue(color === 'white' ? move.white : (move.black || ''))
     setContextMenu(null)
   }
@@ -640,37 +1065,60 @@ export default function ConvertPage() {
         setEditableMove({ moveNumber, color })
         setEditedMoveValue(color === 'white' ? move.white : (move.black || ''))
       }
-    } else if (action === 'delete') {
-      // TODO: Implement delete move
-      console.log('Delete move:', moveNumber, color)
-    } else if (action === 'insertBefore' || action === 'insertAfter') {
-      // TODO: Implement insert move
-      console.log('Insert move:', action, moveNumber, color)
+    } else {
+      // Splice the half-move sequence, then re-pair and re-check everything after the splice
+      const halfMoves = flattenMoves(movesData)
+      const halfMoveIndex = halfMoveIndexOf(moveNumber, color)
+      if (halfMoveIndex >= halfMoves.length) {
+        setContextMenu(null)
+        return
+      }
+
+      let spliceIndex: number
+      if (action === 'delete') {
+        spliceIndex = halfMoveIndex
+        halfMoves.splice(spliceIndex, 1)
+      } else {
+        spliceIndex = action === 'insertBefore' ? halfMoveIndex : halfMoveIndex + 1
+        halfMoves.splice(spliceIndex, 0, {
+          text: PLACEHOLDER_MOVE,
+          valid: false,
+          error: 'Missing move'
+        })
+      }
+
+      const updatedMoves = pairHalfMoves(revalidateHalfMoves(halfMoves, spliceIndex))
+      setMovesData(updatedMoves)
+      setInvalidMovesCount(countInvalidMoves(updatedMoves))
+
+      if (action === 'delete') {
+        setEditableMove(null)
+        setEditedMoveValue('')
+      } else {
+        // Open the inserted cell straight away so the missing move can be typed in
+        setEditableMove({
+          moveNumber: Math.floor(spliceIndex / 2) + 1,
+          color: spliceIndex % 2 === 0 ? 'white' : 'black'
+        })
+        setEditedMoveValue('')
+      }
     }
-    
+
     setContextMenu(null)
   }
 
   // Save edited move
-  const handleSaveMove = (moveNumber: number, color: 'white' | 'black') => {
-    const newValue = editedMoveValue.trim()
+  const handleSaveMove = (moveNumber: number, color: 'white' | 'black', value: string = editedMoveValue) => {
+    const newValue = value.trim()
     if (!newValue) return
 
     const moveIndex = movesData.findIndex(m => m.moveNumber === moveNumber)
     if (moveIndex === -1) return
 
-    const gameHistory: string[] = []
-    for (let i = 0; i < moveIndex; i++) {
-      const m = movesData[i]
-      gameHistory.push(m.white)
-      if (m.black) gameHistory.push(m.black)
-    }
-    
-    if (color === 'black') {
-      gameHistory.push(movesData[moveIndex].white)
-    }
-
-    const validation = validateMoveOnBoard(newValue, gameHistory)
+    // Checked in the position the review board shows before the half-move
+    const index = halfMoveIndexOf(moveNumber, color)
+    const board = new Chess(positions[index])
+    const valid = !!playHalfMove(board, { text: newValue, valid: false, error: null })
     
     const updatedMoves = [...movesData]
     const moveToUpdate = updatedMoves[moveIndex]
@@ -679,25 +1127,32 @@ export default function ConvertPage() {
       updatedMoves[moveIndex] = {
         ...moveToUpdate,
         white: newValue,
-        whiteValid: validation.valid,
-        whiteError: validation.valid ? null : (validation.error || 'Invalid move')
+        whiteValid: valid,
+        whiteError: valid ? null : 'Invalid move',
+        // Typing over a guessed half-move settles it
+        whiteInserted: undefined
       }
     } else {
       updatedMoves[moveIndex] = {
         ...moveToUpdate,
         black: newValue,
-        blackValid: validation.valid,
-        blackError: validation.valid ? null : (validation.error || 'Invalid move')
+        blackValid: valid,
+        blackError: valid ? null : 'Invalid move',
+        // Typing over a guessed half-move settles it
+        blackInserted: undefined
       }
     }
 
-    const invalidCount = updatedMoves.reduce((count, move) => {
-      if (!move.whiteValid) count++
-      if (move.black && !move.blackValid) count++
-      return count
-    }, 0)
+    // Filling in an inserted move completes the splice, so the rest of the game is re-checked,
+    // from the position after the new move
+    const previousValue = color === 'white' ? moveToUpdate.white : moveToUpdate.black
+    const finalMoves = previousValue === PLACEHOLDER_MOVE
+      ? pairHalfMoves(revalidateHalfMoves(flattenMoves(updatedMoves), index + 1, board.fen()))
+      : updatedMoves
 
-    setMovesData(updatedMoves)
+    const invalidCount = countInvalidMoves(finalMoves)
+
+    setMovesData(finalMoves)
     setInvalidMovesCount(invalidCount)
     setEditableMove(null)
     setEditedMoveValue('')
@@ -708,12 +1163,54 @@ export default function ConvertPage() {
     setEditedMoveValue('')
   }
 
-  const handleGeneratePGN = () => {
+  // Keep a repair made by the validator; the move list already reflects it
+  const handleAcceptRepair = (index: number, type: MoveRepair['type']) => {
+    const halfMoves = flattenMoves(movesData)
+    halfMoves[index] = type === 'inserted-placeholder'
+      ? { ...halfMoves[index], inserted: undefined }
+      : { ...halfMoves[index], dropped: undefined }
+    setMovesData(pairHalfMoves(halfMoves))
+  }
+
+  // Undo a repair: take the guessed half-move out, or put the dropped tokens back before their move
+  const handleRejectRepair = (index: number, type: MoveRepair['type']) => {
+    const halfMoves = flattenMoves(movesData)
+    const halfMove = halfMoves[index]
+
+    if (type === 'inserted-placeholder') {
+      halfMoves.splice(index, 1)
+      if (halfMove.dropped && halfMoves[index]) {
+        halfMoves[index] = { ...halfMoves[index], dropped: [...halfMove.dropped, ...(halfMoves[index].dropped || [])] }
+      }
+    } else {
+      const restored = (halfMove.dropped || []).map(text => ({ text, valid: false, error: 'Invalid move' }))
+      halfMoves.splice(index, 1, ...restored, { ...halfMove, dropped: undefined })
+    }
+
+    const updatedMoves = pairHalfMoves(revalidateHalfMoves(halfMoves, index))
+    setMovesData(updatedMoves)
+    setInvalidMovesCount(countInvalidMoves(updatedMoves))
+    setSelectedMove(null)
+    setEditableMove(null)
+  }
+
+  const handleContinueToInfo = () => {
     if (invalidMovesCount > 0) {
       setError('Please fix all invalid moves before generating PGN')
       return
     }
 
+    setError(null)
+    setStatus('info')
+  }
+
+  const handleGeneratePGN = () => {
+    if (Object.keys(metadataErrors).length > 0) {
+      setError('Please fix the highlighted game details before generating PGN')
+      return
+    }
+
+    setError(null)
     const movesArray: string[] = []
     movesData.forEach(move => {
       movesArray.push(move.white)
@@ -722,21 +1219,93 @@ export default function ConvertPage() {
       }
     })
 
+    // Without a result on the sheet, a game ending in mate or a draw by position gets that result, as in the CLI
+    const result = gameMetadata.result || decidedResult(movesArray)
     const parsed = {
-      metadata: {},
+      metadata: { ...gameMetadata, ...(result ? { result } : {}) },
       moves: movesArray,
+      moveSources: flattenMoves(movesData).map(halfMove => halfMove.source || {}),
       rawText: extractedText,
       confidence: 100
     }
 
     const pgn = convertToPGN(parsed)
+    // A result that contradicts the final position is caught here, while the details can still be changed
+    const { valid, errors } = validatePGN(pgn)
+    if (!valid) {
+      setError(describePGNErrors(errors))
+      return
+    }
     setPgnOutput(pgn)
     setStatus('completed')
+    if (activeBatchId) {
+      updateBatchSheet(activeBatchId, { status: 'done', game: parsed, review: { moves: movesData, metadata: gameMetadata } })
+    }
+  }
+
+  const metadataErrors = validateMetadata(gameMetadata)
+
+  // Board follows the cell being edited, otherwise the last clicked cell
+  const boardTarget = editableMove || selectedMove
+  const reviewPosition = boardTarget
+    ? reviewPositionFor(
+        flattenMoves(movesData),
+        halfMoveIndexOf(boardTarget.moveNumber, boardTarget.color),
+        !!editableMove
+      )
+    : null
+
+  // Score sheet highlight follows the hovered cell, then the edited or selected one
+  const sheetTarget = hoveredMove || editableMove || selectedMove
+  const sheetHalfMoves = flattenMoves(movesData)
+  const activeSource = sheetTarget
+    ? sheetHalfMoves[halfMoveIndexOf(sheetTarget.moveNumber, sheetTarget.color)]?.source
+    : undefined
+  const activePage = activeSource?.page
+  const activeSheetBox = (activePage || 0) === shownPage ? activeSource?.box || null : null
+  const sheetBoxes: SheetBox[] = sheetHalfMoves.flatMap((halfMove, index) =>
+    halfMove.source?.box && (halfMove.source.page || 0) === shownPage
+      ? [{ id: `${index}`, box: halfMove.source.box, tone: halfMove.valid ? 'valid' as const : 'invalid' as const }]
+      : []
+  )
+
+  // Turn to the page the highlighted move was written on
+  useEffect(() => {
+    if (activePage !== undefined) setShownPage(activePage)
+  }, [activePage])
+
+  // Repairs made by the validator that the reviewer has not kept or undone yet
+  const pendingRepairs = sheetHalfMoves.flatMap((halfMove, index) => [
+    ...(halfMove.inserted ? [{ index, type: 'inserted-placeholder' as const }] : []),
+    ...(halfMove.dropped?.length ? [{ index, type: 'dropped-token' as const }] : []),
+  ])
+
+  const lowConfidenceCount = sheetHalfMoves.filter(halfMove => isLowConfidence(halfMove, confidenceThreshold)).length
+
+  // Select the next legal move read below the threshold, wrapping around to the first
+  const handleNextLowConfidence = () => {
+    const start = selectedMove ? halfMoveIndexOf(selectedMove.moveNumber, selectedMove.color) + 1 : 0
+    const order = sheetHalfMoves.map((_, offset) => (start + offset) % sheetHalfMoves.length)
+    const index = order.find(i => isLowConfidence(sheetHalfMoves[i], confidenceThreshold))
+    if (index === undefined) return
+
+    const target = { moveNumber: Math.floor(index / 2) + 1, color: index % 2 === 0 ? 'white' as const : 'black' as const }
+    setSelectedMove(target)
+    document.getElementById(`move-${target.moveNumber}-${target.color}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }
+
+  // Picking a move on the board enters it into the cell, ready to confirm
+  const handleBoardMove = (san: string) => {
+    if (!boardTarget) return
+    setEditableMove(boardTarget)
+    setEditedMoveValue(san)
+    setContextMenu(null)
   }
 
   const activeStep = status === 'idle' || status === 'error' ? 0 : 
-                     status === 'uploading' || status === 'processing' ? 1 :
-                     status === 'validated' || status === 'completed' ? 2 : 0
+                     status === 'uploading' || status === 'processing' || status === 'validated' ? 1 :
+                     status === 'info' ? 2 :
+                     status === 'completed' ? 3 : 0
 
   return (
     <>
@@ -752,13 +1321,18 @@ export default function ConvertPage() {
                 <h1 className="text-[clamp(2rem,4vw,2.5rem)] font-bold text-contrast mb-2">
                   {status === 'completed' ? 'Processing Complete' : 
                    status === 'validated' ? 'Review and Fix Moves' :
+                   status === 'info' ? 'Game Details' :
                    status === 'processing' || status === 'uploading' ? 'Processing...' :
+                   pages.length > 0 ? 'Add the Next Page' :
                    'Upload Your First Page'}
                 </h1>
                 <p className="text-lg text-contrast/60">
                   {status === 'completed' ? 'Review and download your PGN' :
                    status === 'validated' ? 'Double-click to edit, right-click for more options' :
+                   status === 'info' ? 'Check the players, event and result before generating PGN' :
+                   batch.length > 0 && status === 'processing' ? 'Reading the round; each sheet opens for review as soon as it is read' :
                    status === 'processing' || status === 'uploading' ? 'Please wait while we process your image' :
+                   pages.length > 0 ? 'Put the pages in order, then convert them as one game.' :
                    'One page at a time.'}
                 </p>
               </div>
@@ -786,8 +1360,18 @@ export default function ConvertPage() {
                 </div>
               )}
 
+              {/* Round queue */}
+              {batch.length > 0 && (
+                <BatchQueue
+                  items={batch}
+                  activeId={activeBatchId}
+                  onReview={openBatchSheet}
+                  onDownload={handleDownloadRound}
+                />
+              )}
+
               {/* Progress Bar */}
-              {(status === 'uploading' || status === 'processing') && (
+              {(status === 'uploading' || status === 'processing') && batch.length === 0 && (
                 <div className="mb-8">
                   <div className="w-full bg-gray-200 rounded-full h-2.5">
                     <div
@@ -796,16 +1380,17 @@ export default function ConvertPage() {
                     ></div>
                   </div>
                   <p className="text-sm text-contrast/60 mt-2 text-center">
-                    {status === 'uploading' ? 'Uploading image...' : 'Extracting text with OCR...'}
+                    {pages.length > 1 && `Page ${currentPage + 1} of ${pages.length}: `}
+                    {status === 'uploading' ? 'Uploading image...' : jobStatus ? jobStages[jobStatus].label : 'Extracting text with OCR...'}
                   </p>
                 </div>
               )}
 
               {/* Image Preview - Hide when in validated or completed status (shown in side-by-side) */}
-              {imagePreview && status !== 'validated' && status !== 'completed' && (
+              {pages[currentPage] && (status === 'uploading' || status === 'processing') && (
                 <div className="mb-6">
                   <img
-                    src={imagePreview}
+                    src={pages[currentPage].preview}
                     alt="Uploaded score sheet"
                     className="w-full rounded-xl border-2 border-primary"
                   />
@@ -815,6 +1400,76 @@ export default function ConvertPage() {
               {/* Upload Options - Only show when idle or error */}
               {(status === 'idle' || status === 'error') && (
                 <>
+                  {/* Pages picked so far, in the order they are read */}
+                  {pages.length > 0 && (
+                    <div className="bg-white border-2 border-primary rounded-xl p-4 mb-8">
+                      <ol className="space-y-2">
+                        {pages.map((page, index) => (
+                          <li key={page.preview} className="flex items-center gap-3">
+                            <img
+                              src={page.preview}
+                              alt={`Page ${index + 1}`}
+                              className="w-12 h-16 object-cover rounded border border-gray-200"
+                            />
+                            <span className="flex-1 text-sm text-contrast truncate">
+                              <span className="font-semibold">Page {index + 1}</span> · {page.file.name}
+                            </span>
+                            <button
+                              onClick={() => handleMovePage(index, -1)}
+                              disabled={index === 0}
+                              title="Move up"
+                              className="px-2 py-1 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              onClick={() => handleMovePage(index, 1)}
+                              disabled={index === pages.length - 1}
+                              title="Move down"
+                              className="px-2 py-1 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                              ↓
+                            </button>
+                            <button
+                              onClick={() => handleRemovePage(index)}
+                              className="px-2 py-1 rounded text-sm text-red-600 hover:bg-red-50"
+                            >
+                              Remove
+                            </button>
+                          </li>
+                        ))}
+                      </ol>
+                      {pages.length > 1 && (
+                        <div className="flex flex-wrap items-center gap-4 mt-4 text-sm text-contrast">
+                          <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              checked={uploadMode === 'game'}
+                              onChange={() => setUploadMode('game')}
+                            />
+                            Pages of one game
+                          </label>
+                          <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              checked={uploadMode === 'round'}
+                              onChange={() => setUploadMode('round')}
+                            />
+                            One game per sheet (a whole round)
+                          </label>
+                        </div>
+                      )}
+                      <button
+                        onClick={() => (pages.length > 1 && uploadMode === 'round' ? processRound(pages) : processPages(pages))}
+                        className="mt-4 w-full bg-primary text-white px-6 py-3 rounded-lg hover:bg-primary/90 transition-colors font-semibold"
+                      >
+                        {pages.length === 1 ? 'Convert Page' :
+                         uploadMode === 'round' ? `Convert ${pages.length} Sheets as a Round` :
+                         `Convert ${pages.length} Pages as One Game`}
+                      </button>
+                    </div>
+                  )}
+
                   {/* Info Box */}
                   <div className="bg-accent1 border border-primary rounded-xl p-6 mb-8">
                     <div className="flex items-start gap-3 mb-4">
@@ -838,8 +1493,12 @@ export default function ConvertPage() {
                     </div>
                   </div>
 
-                  {/* Upload Options */}
-                  <div className="space-y-4">
+                  {/* Upload Options - photos can also be dropped here */}
+                  <div
+                    className="space-y-4"
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={handleDropPages}
+                  >
                     {/* Upload Photo - Always visible */}
                     <button
                       onClick={handleUploadClick}
@@ -866,7 +1525,7 @@ export default function ConvertPage() {
                         </svg>
                       </div>
                       <span className="text-primary font-semibold text-lg">
-                        Upload Photo
+                        {pages.length > 0 ? 'Add Page' : 'Upload Photo'}
                       </span>
                     </button>
 
@@ -900,9 +1559,17 @@ export default function ConvertPage() {
                         </svg>
                       </div>
                       <span className="text-primary font-semibold text-lg">
-                        Take Photo
+                        {pages.length > 0 ? 'Photograph Next Page' : 'Take Photo'}
                       </span>
                     </button>
+
+                    {/* Upload Folder - a round's sheets, desktop only */}
+                    <button
+                      onClick={handleUploadFolderClick}
+                      className="w-full bg-white border border-primary rounded-xl p-4 text-primary font-semibold hover:bg-accent1/30 transition-colors duration-300 cursor-pointer hidden md:block"
+                    >
+                      Upload a Folder of Score Sheets (Batch)
+                    </button>
                   </div>
                 </>
               )}
@@ -910,6 +1577,20 @@ export default function ConvertPage() {
               {/* Moves Table Display */}
               {status === 'validated' && (
                 <div className="space-y-6">
+                  {/* Pages that do not follow on from the ones before them */}
+                  {pageIssues.length > 0 && (
+                    <div className="bg-yellow-50 border-2 border-yellow-300 rounded-xl p-4">
+                      <p className="text-yellow-900 font-semibold mb-2">
+                        The pages may not join up. Check their order beside the score sheet:
+                      </p>
+                      <ul className="list-disc pl-5 space-y-1 text-sm text-yellow-900">
+                        {pageIssues.map(issue => (
+                          <li key={`${issue.type}-${issue.page}`}>{describeContinuityIssue(issue)}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {/* Invalid Moves Alert */}
                   {invalidMovesCount > 0 && (
                     <div className="bg-red-50 border-2 border-red-300 rounded-xl p-4">
@@ -919,19 +1600,104 @@ export default function ConvertPage() {
                     </div>
                   )}
 
+                  {/* Repairs Review */}
+                  {pendingRepairs.length > 0 && (
+                    <div className="bg-blue-50 border-2 border-blue-300 rounded-xl p-4">
+                      <p className="text-blue-900 font-semibold mb-2">
+                        {pendingRepairs.length === 1 ? 'A gap in the move list was repaired' : `${pendingRepairs.length} gaps in the move list were repaired`}. Keep or undo each one:
+                      </p>
+                      <ul className="space-y-2">
+                        {pendingRepairs.map(({ index, type }) => {
+                          const halfMove = sheetHalfMoves[index]
+                          const target = { moveNumber: Math.floor(index / 2) + 1, color: index % 2 === 0 ? 'white' as const : 'black' as const }
+                          return (
+                            <li key={`${type}-${index}`} className="flex flex-wrap items-center gap-2 text-sm text-blue-900">
+                              <button
+                                onClick={() => setSelectedMove(target)}
+                                className="font-semibold underline"
+                              >
+                                {target.moveNumber}{target.color === 'white' ? '.' : '...'}
+                              </button>
+                              <span className="flex-1">
+                                {type === 'inserted-placeholder'
+                                  ? `${halfMove.text} was added where the sheet seems to be missing a move`
+                                  : `"${halfMove.dropped?.join(' ')}" was left out before ${halfMove.text}`}
+                              </span>
+                              <button
+                                onClick={() => handleAcceptRepair(index, type)}
+                                className="px-2 py-1 bg-primary text-white rounded text-xs hover:bg-primary/90"
+                              >
+                                Keep
+                              </button>
+                              <button
+                                onClick={() => handleRejectRepair(index, type)}
+                                className="px-2 py-1 bg-gray-300 text-gray-700 rounded text-xs hover:bg-gray-400"
+                              >
+                                {type === 'inserted-placeholder' ? 'Remove' : 'Restore'}
+                              </button>
+                            </li>
+                          )
+                        })}
+                      </ul>
+                    </div>
+                  )}
+
                   {/* Side-by-side Layout: Score Sheet Image and Moves Table */}
-                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
                     {/* Score Sheet Image */}
-                    {imagePreview && (
+                    {pages[shownPage] && (
                       <div className="bg-white border-2 border-primary rounded-xl p-4 overflow-hidden flex flex-col h-[600px]">
-                        <h3 className="text-lg font-semibold text-contrast mb-3">Score Sheet</h3>
-                        <div className="overflow-auto flex-1 border border-gray-200 rounded-lg">
-                          <img
-                            src={imagePreview}
-                            alt="Uploaded score sheet"
-                            className="w-full h-auto"
-                          />
+                        <div className="flex items-center justify-between mb-3">
+                          <h3 className="text-lg font-semibold text-contrast">Score Sheet</h3>
+                          {sheetBoxes.length > 0 && (
+                            <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={showAllBoxes}
+                                onChange={(e) => setShowAllBoxes(e.target.checked)}
+                              />
+                              Show what was read
+                            </label>
+                          )}
                         </div>
+                        {pages.length > 1 && (
+                          <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+                            {pages.map((page, index) => (
+                              <button
+                                key={page.preview}
+                                onClick={() => setShownPage(index)}
+                                className={`px-2 py-1 rounded border ${index === shownPage ? 'border-primary bg-primary text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+                              >
+                                Page {index + 1}
+                              </button>
+                            ))}
+                            <span className="ml-auto flex items-center gap-1 text-gray-600">
+                              Reorder
+                              <button
+                                onClick={() => handleMovePage(shownPage, -1)}
+                                disabled={shownPage === 0}
+                                title="Read this page earlier"
+                                className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                              >
+                                ←
+                              </button>
+                              <button
+                                onClick={() => handleMovePage(shownPage, 1)}
+                                disabled={shownPage === pages.length - 1}
+                                title="Read this page later"
+                                className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                              >
+                                →
+                              </button>
+                            </span>
+                          </div>
+                        )}
+                        <ScoreSheetPreview
+                          src={pages[shownPage].preview}
+                          boxes={sheetBoxes}
+                          showAll={showAllBoxes}
+                          activeBox={activeSheetBox}
+                        />
                       </div>
                     )}
 
@@ -942,6 +1708,53 @@ export default function ConvertPage() {
                         {movesData.length > 10 && (
                           <p className="text-xs text-gray-500 mt-1">Total: {movesData.length} moves (scroll to view all)</p>
                         )}
+                        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-600">
+                          <label className="flex items-center gap-1">
+                            Flag legal moves read below
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={confidenceThreshold}
+                              onChange={(e) => setConfidenceThreshold(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+                              className="w-14 px-1 py-0.5 border border-gray-300 rounded"
+                            />
+                            %
+                          </label>
+                          <button
+                            onClick={handleNextLowConfidence}
+                            disabled={lowConfidenceCount === 0}
+                            className="px-2 py-1 rounded border border-yellow-400 bg-yellow-50 text-yellow-800 hover:bg-yellow-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Next low-confidence ({lowConfidenceCount})
+                          </button>
+                          <label className="flex items-center gap-1">
+                            Notation
+                            <select
+                              value={notationOverride}
+                              onChange={(e) => handleNotationChange(e.target.value as NotationChoice | 'auto')}
+                              className="px-1 py-0.5 border border-gray-300 rounded"
+                            >
+                              <option value="auto">
+                                Auto{detectedNotation ? ` (${notationLabel(detectedNotation)})` : ''}
+                              </option>
+                              {(Object.keys(NOTATION_LANGUAGES) as NotationLanguage[]).map(language => (
+                                <option key={language} value={language}>{notationLabel(language)}</option>
+                              ))}
+                              <option value="descriptive">{notationLabel('descriptive')} (P-K4)</option>
+                            </select>
+                          </label>
+                          {sheetLayout && sheetLayout.blocks > 0 && (
+                            <span title={sheetLayout.blocks > 1 ? 'Moves are read block by block, in this order' : undefined}>
+                              Layout: {describeLayout(sheetLayout)}
+                            </span>
+                          )}
+                          {sheetTemplate && (
+                            <span title="Grid and header positions were read with this sheet design">
+                              Sheet: {sheetTemplate}
+                            </span>
+                          )}
+                        </div>
                       </div>
                       <div className="overflow-x-auto overflow-y-auto flex-1">
                         <table className="w-full table-fixed">
@@ -968,7 +1781,7 @@ export default function ConvertPage() {
                               <td className="px-4 py-3 border-b border-gray-200 overflow-hidden">
                                 <div className="min-h-[40px] flex items-center">
                                   {editableMove?.moveNumber === move.moveNumber && editableMove?.color === 'white' ? (
-                                    <div className="flex items-center gap-2 w-full">
+                                    <div className="flex flex-wrap items-center gap-2 w-full">
                                       <input
                                         type="text"
                                         value={editedMoveValue}
@@ -995,15 +1808,39 @@ export default function ConvertPage() {
                                       >
                                         ✕
                                       </button>
+                                      <MoveSuggestions
+                                        suggestions={move.whiteSuggestions || []}
+                                        onPick={(san) => handleSaveMove(move.moveNumber, 'white', san)}
+                                      />
                                     </div>
                                   ) : (
                                     <div
                                       className={`flex items-center px-2 py-1.5 rounded cursor-pointer w-full min-h-[40px] ${
                                         !move.whiteValid ? 'border-2 border-red-500 bg-red-50' : ''
+                                      } ${
+                                        isLowConfidence(sheetHalfMoves[halfMoveIndexOf(move.moveNumber, 'white')], confidenceThreshold) ? 'border border-yellow-400 bg-yellow-50' : ''
+                                      } ${
+                                        move.whiteInserted ? 'border-2 border-dashed border-blue-400 bg-blue-50' : ''
+                                      } ${
+                                        selectedMove?.moveNumber === move.moveNumber && selectedMove?.color === 'white' ? 'ring-2 ring-accent4' : ''
                                       }`}
+                                      id={`move-${move.moveNumber}-white`}
+                                      title={move.whiteSource?.confidence !== undefined ? `Read with ${Math.round(move.whiteSource.confidence)}% confidence` : undefined}
+                                      onClick={() => handleMoveClick(move.moveNumber, 'white')}
+                                      onMouseEnter={() => setHoveredMove({ moveNumber: move.moveNumber, color: 'white' })}
+                                      onMouseLeave={() => setHoveredMove(null)}
                                       onDoubleClick={() => handleMoveDoubleClick(move.moveNumber, 'white')}
                                       onContextMenu={(e) => handleMoveRightClick(e, move.moveNumber, 'white')}
                                     >
+                                      {move.whiteDropped && (
+                                        <span className="text-xs text-blue-700 mr-1" title={`Left out before this move: ${move.whiteDropped.join(' ')}`}>✂</span>
+                                      )}
+                                      {move.whiteSource?.written && (
+                                        <span className="text-xs text-gray-500 mr-1" title="As written on the score sheet">{move.whiteSource.written} →</span>
+                                      )}
+                                      {!move.whiteSource?.written && move.whiteOriginal && (
+                                        <span className="text-xs text-gray-500 mr-1" title="As read from the score sheet">{move.whiteOriginal} →</span>
+                                      )}
                                       <span className="text-sm">{move.white}</span>
                                       {move.whiteValid && (
                                         <span className="text-green-600 font-bold ml-1">✓</span>
@@ -1016,7 +1853,7 @@ export default function ConvertPage() {
                               <td className="px-4 py-3 border-b border-gray-200 overflow-hidden">
                                 <div className="min-h-[40px] flex items-center">
                                   {editableMove?.moveNumber === move.moveNumber && editableMove?.color === 'black' ? (
-                                    <div className="flex items-center gap-2 w-full">
+                                    <div className="flex flex-wrap items-center gap-2 w-full">
                                       <input
                                         type="text"
                                         value={editedMoveValue}
@@ -1043,15 +1880,39 @@ export default function ConvertPage() {
                                       >
                                         ✕
                                       </button>
+                                      <MoveSuggestions
+                                        suggestions={move.blackSuggestions || []}
+                                        onPick={(san) => handleSaveMove(move.moveNumber, 'black', san)}
+                                      />
                                     </div>
                                   ) : (
                                     <div
                                       className={`flex items-center px-2 py-1.5 rounded w-full min-h-[40px] ${move.black ? 'cursor-pointer' : ''} ${
                                         move.black && !move.blackValid ? 'border-2 border-red-500 bg-red-50' : ''
+                                      } ${
+                                        move.black && isLowConfidence(sheetHalfMoves[halfMoveIndexOf(move.moveNumber, 'black')], confidenceThreshold) ? 'border border-yellow-400 bg-yellow-50' : ''
+                                      } ${
+                                        move.black && move.blackInserted ? 'border-2 border-dashed border-blue-400 bg-blue-50' : ''
+                                      } ${
+                                        move.black && selectedMove?.moveNumber === move.moveNumber && selectedMove?.color === 'black' ? 'ring-2 ring-accent4' : ''
                                       }`}
+                                      id={`move-${move.moveNumber}-black`}
+                                      title={move.blackSource?.confidence !== undefined ? `Read with ${Math.round(move.blackSource.confidence)}% confidence` : undefined}
+                                      onClick={() => move.black && handleMoveClick(move.moveNumber, 'black')}
+                                      onMouseEnter={() => move.black && setHoveredMove({ moveNumber: move.moveNumber, color: 'black' })}
+                                      onMouseLeave={() => setHoveredMove(null)}
                                       onDoubleClick={() => move.black && handleMoveDoubleClick(move.moveNumber, 'black')}
                                       onContextMenu={(e) => move.black && handleMoveRightClick(e, move.moveNumber, 'black')}
                                     >
+                                      {move.black && move.blackDropped && (
+                                        <span className="text-xs text-blue-700 mr-1" title={`Left out before this move: ${move.blackDropped.join(' ')}`}>✂</span>
+                                      )}
+                                      {move.black && move.blackSource?.written && (
+                                        <span className="text-xs text-gray-500 mr-1" title="As written on the score sheet">{move.blackSource.written} →</span>
+                                      )}
+                                      {move.black && !move.blackSource?.written && move.blackOriginal && (
+                                        <span className="text-xs text-gray-500 mr-1" title="As read from the score sheet">{move.blackOriginal} →</span>
+                                      )}
                                       <span className="text-sm">{move.black || '-'}</span>
                                       {move.black && move.blackValid && (
                                         <span className="text-green-600 font-bold ml-1">✓</span>
@@ -1066,6 +1927,39 @@ export default function ConvertPage() {
                       </table>
                     </div>
                   </div>
+
+                    {/* Board for the selected move */}
+                    <div className="bg-white border-2 border-primary rounded-xl p-4 flex flex-col h-[600px] overflow-y-auto">
+                      <h3 className="text-lg font-semibold text-contrast">Board</h3>
+                      <p className="text-xs text-gray-500 mb-3">
+                        {boardTarget
+                          ? `${reviewPosition?.legalMoves ? 'Before' : 'After'} ${boardTarget.moveNumber}${boardTarget.color === 'white' ? '.' : '...'}`
+                          : 'Click a move to see the position'}
+                      </p>
+                      <ChessBoard
+                        fen={reviewPosition?.fen || new Chess().fen()}
+                        lastMove={reviewPosition?.lastMove}
+                        onMove={reviewPosition?.legalMoves ? handleBoardMove : undefined}
+                      />
+                      {reviewPosition?.legalMoves && (
+                        <div className="mt-3">
+                          <p className="text-xs text-gray-500 mb-2">
+                            Legal moves ({reviewPosition.legalMoves.length}) - click one or move a piece to enter it
+                          </p>
+                          <div className="flex flex-wrap gap-1">
+                            {reviewPosition.legalMoves.map(san => (
+                              <button
+                                key={san}
+                                onClick={() => handleBoardMove(san)}
+                                className="px-2 py-0.5 bg-accent1 border border-accent2 rounded text-xs text-contrast hover:bg-accent2"
+                              >
+                                {san}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
                   </div>
 
                   {/* Hint */}
@@ -1075,9 +1969,9 @@ export default function ConvertPage() {
                     </p>
                   </div>
 
-                  {/* Continue to PGN Button */}
+                  {/* Continue to Game Details Button */}
                   <button
-                    onClick={handleGeneratePGN}
+                    onClick={handleContinueToInfo}
                     disabled={invalidMovesCount > 0}
                     className={`w-full py-3 px-4 rounded-xl font-semibold transition-colors ${
                       invalidMovesCount > 0
@@ -1085,7 +1979,7 @@ export default function ConvertPage() {
                         : 'bg-primary text-white hover:bg-primary/90'
                     }`}
                   >
-                    Continue to PGN
+                    Continue to Game Details
                   </button>
 
                   {/* Extracted Text */}
@@ -1102,6 +1996,37 @@ export default function ConvertPage() {
                 </div>
               )}
 
+              {/* Game Details Form */}
+              {status === 'info' && (
+                <div className="space-y-6">
+                  <GameInfoForm
+                    metadata={gameMetadata}
+                    errors={metadataErrors}
+                    onChange={setGameMetadata}
+                  />
+
+                  <div className="flex flex-col sm:flex-row gap-4">
+                    <button
+                      onClick={() => setStatus('validated')}
+                      className="sm:w-1/3 bg-white border-2 border-primary rounded-xl py-3 px-4 text-primary font-semibold hover:bg-accent1/30 transition-colors"
+                    >
+                      Back to Moves
+                    </button>
+                    <button
+                      onClick={handleGeneratePGN}
+                      disabled={Object.keys(metadataErrors).length > 0}
+                      className={`flex-1 py-3 px-4 rounded-xl font-semibold transition-colors ${
+                        Object.keys(metadataErrors).length > 0
+                          ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                          : 'bg-primary text-white hover:bg-primary/90'
+                      }`}
+                    >
+                      Generate PGN
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Results Display */}
               {status === 'completed' && (
                 <div className="space-y-6">
@@ -1127,12 +2052,22 @@ export default function ConvertPage() {
                     </div>
                   )}
 
+                  {/* Next sheet of the round */}
+                  {batch.some(sheet => sheet.id !== activeBatchId && !['done', 'failed'].includes(sheet.status)) && (
+                    <button
+                      onClick={handleNextBatchSheet}
+                      className="w-full bg-primary text-white rounded-xl p-4 font-semibold hover:bg-primary/90 transition-colors"
+                    >
+                      Next Sheet
+                    </button>
+                  )}
+
                   {/* Reset Button */}
                   <button
                     onClick={handleReset}
                     className="w-full bg-white border-2 border-primary rounded-xl p-4 text-primary font-semibold hover:bg-accent1/30 transition-colors"
                   >
-                    Process Another Image
+                    {batch.length > 0 ? 'Start a New Round' : 'Process Another Image'}
                   </button>
                 </div>
               )}
@@ -1142,6 +2077,7 @@ export default function ConvertPage() {
                 ref={fileInputRef}
                 type="file"
                 accept="image/*"
+                multiple
                 onChange={handleFileChange}
                 className="hidden"
                 disabled={status === 'uploading' || status === 'processing'}
@@ -1155,6 +2091,14 @@ export default function ConvertPage() {
                 className="hidden"
                 disabled={status === 'uploading' || status === 'processing'}
               />
+              <input
+                ref={folderInputRef}
+                type="file"
+                multiple
+                onChange={handleFolderChange}
+                className="hidden"
+                disabled={status === 'uploading' || status === 'processing'}
+              />
             </div>
           </div>
         </section>
@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import type { PGNDatabaseOptions } from '@/lib/pgn/converter'
+
+export type BatchStatus = 'queued' | 'uploading' | 'processing' | 'review' | 'done' | 'failed'
+
+export interface BatchQueueItem {
+  id: string
+  name: string
+  status: BatchStatus
+  error?: string
+}
+
+interface BatchQueueProps {
+  items: BatchQueueItem[]
+  // Sheet open in the review steps
+  activeId: string | null
+  onReview: (id: string) => void
+  onDownload: (options: Pick<PGNDatabaseOptions, 'sortByRound' | 'dedupe'>) => void
+}
+
+const statusLabels: { [key in BatchStatus]: string } = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  processing: 'Processing',
+  review: 'Needs review',
+  done: 'Done',
+  failed: 'Failed',
+}
+
+const statusClasses: { [key in BatchStatus]: string } = {
+  queued: 'bg-gray-100 text-gray-600',
+  uploading: 'bg-blue-50 text-blue-700',
+  processing: 'bg-blue-50 text-blue-700',
+  review: 'bg-yellow-50 text-yellow-800',
+  done: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+}
+
+export default function BatchQueue({ items, activeId, onReview, onDownload }: BatchQueueProps) {
+  const done = items.filter(item => item.status === 'done').length
+  const toReview = items.filter(item => item.status === 'review').length
+  const [sortByRound, setSortByRound] = useState(true)
+  const [dedupe, setDedupe] = useState(true)
+
+  return (
+    <div className="bg-white border-2 border-primary rounded-xl p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-lg font-semibold text-contrast">
+          Round: {items.length} {items.length === 1 ? 'sheet' : 'sheets'}
+          <span className="ml-2 text-sm font-normal text-gray-600">
+            {done} done · {toReview} to review
+          </span>
+        </h3>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={sortByRound} onChange={(e) => setSortByRound(e.target.checked)} />
+            Sort by round and board
+          </label>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={dedupe} onChange={(e) => setDedupe(e.target.checked)} />
+            Leave out duplicate games
+          </label>
+          <button
+            onClick={() => onDownload({ sortByRound, dedupe })}
+            disabled={done === 0}
+            className="bg-primary text-white px-4 py-2 rounded-lg hover:bg-primary/90 transition-colors text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Download Round PGN ({done} {done === 1 ? 'game' : 'games'})
+          </button>
+        </div>
+      </div>
+      <ol className="max-h-60 overflow-y-auto divide-y divide-gray-100">
+        {items.map((item, index) => (
+          <li
+            key={item.id}
+            className={`flex items-center gap-3 py-2 px-2 text-sm ${item.id === activeId ? 'bg-accent1 rounded' : ''}`}
+          >
+            <span className="w-8 text-gray-500">{index + 1}.</span>
+            <span className="flex-1 truncate text-contrast" title={item.error || item.name}>
+              {item.name}
+            </span>
+            <span className={`px-2 py-0.5 rounded text-xs font-semibold ${statusClasses[item.status]}`}>
+              {statusLabels[item.status]}
+            </span>
+            {(item.status === 'review' || item.status === 'done') && item.id !== activeId && (
+              <button
+                onClick={() => onReview(item.id)}
+                className="px-2 py-1 rounded border border-primary text-primary text-xs hover:bg-accent1/50"
+              >
+                {item.status === 'review' ? 'Review' : 'Open'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Chess, type Square } from 'chess.js'
+
+interface ChessBoardProps {
+  fen: string
+  lastMove?: { from: string; to: string } | null
+  // When set, pieces can be moved and each legal move is reported as SAN
+  onMove?: (san: string) => void
+  className?: string
+}
+
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']
+const RANKS = ['8', '7', '6', '5', '4', '3', '2', '1']
+
+const PIECE_SYMBOLS: { [key: string]: string } = {
+  wk: '♔', wq: '♕', wr: '♖', wb: '♗', wn: '♘', wp: '♙',
+  bk: '♚', bq: '♛', br: '♜', bb: '♝', bn: '♞', bp: '♟',
+}
+
+export default function ChessBoard({ fen, lastMove, onMove, className }: ChessBoardProps) {
+  const [selectedSquare, setSelectedSquare] = useState<Square | null>(null)
+
+  const board = useMemo(() => new Chess(fen), [fen])
+
+  // Drop the selection whenever the position changes
+  useEffect(() => {
+    setSelectedSquare(null)
+  }, [fen])
+
+  const targets = useMemo(() => {
+    if (!selectedSquare) return new Map<string, string>()
+    const moves = board.moves({ square: selectedSquare, verbose: true })
+    // Promotions default to a queen; other pieces can still be typed in the cell
+    return new Map(
+      moves
+        .filter(move => !move.promotion || move.promotion === 'q')
+        .map(move => [move.to as string, move.san])
+    )
+  }, [board, selectedSquare])
+
+  const handleSquareClick = (square: Square) => {
+    if (!onMove) return
+
+    const san = targets.get(square)
+    if (san) {
+      onMove(san)
+      setSelectedSquare(null)
+      return
+    }
+
+    const piece = board.get(square)
+    if (piece && piece.color === board.turn() && square !== selectedSquare) {
+      setSelectedSquare(square)
+    } else {
+      setSelectedSquare(null)
+    }
+  }
+
+  return (
+    <div className={`grid grid-cols-8 aspect-square w-full border border-contrast/30 select-none ${className || ''}`}>
+      {RANKS.map((rank, rankIndex) =>
+        FILES.map((file, fileIndex) => {
+          const square = `${file}${rank}` as Square
+          const piece = board.get(square)
+          const isLight = (rankIndex + fileIndex) % 2 === 0
+          const isLastMove = lastMove?.from === square || lastMove?.to === square
+          const isSelected = selectedSquare === square
+          const isTarget = targets.has(square)
+
+          return (
+            <button
+              key={square}
+              type="button"
+              onClick={() => handleSquareClick(square)}
+              disabled={!onMove}
+              title={square}
+              className={`relative flex items-center justify-center text-[clamp(1.25rem,3vw,2rem)] leading-none ${
+                isSelected ? 'bg-accent4' :
+                isLastMove ? 'bg-yellow-200' :
+                isLight ? 'bg-accent3' : 'bg-accent2'
+              } ${onMove ? 'cursor-pointer' : 'cursor-default'}`}
+            >
+              {piece && PIECE_SYMBOLS[`${piece.color}${piece.type}`]}
+              {isTarget && (
+                <span className={`absolute rounded-full ${piece ? 'inset-1 border-4 border-primary/60' : 'w-1/3 h-1/3 bg-primary/60'}`} />
+              )}
+              {fileIndex === 0 && (
+                <span className="absolute top-0.5 left-0.5 text-[0.6rem] text-contrast/70">{rank}</span>
+              )}
+              {rankIndex === 7 && (
+                <span className="absolute bottom-0.5 right-0.5 text-[0.6rem] text-contrast/70">{file}</span>
+              )}
+            </button>
+          )
+        })
+      )}
+    </div>
+  )
+}
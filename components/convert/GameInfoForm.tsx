@@ -0,0 +1,119 @@
+'use client'
+
+import type { GameMetadata, MetadataField } from '@/lib/pgn/parser'
+import type { MetadataErrors } from '@/lib/pgn/converter'
+
+type InfoField = Exclude<keyof GameMetadata, 'fieldConfidence'>
+
+interface GameInfoFormProps {
+  metadata: GameMetadata
+  errors: MetadataErrors
+  onChange: (metadata: GameMetadata) => void
+}
+
+const rosterFields: { field: InfoField; label: string; placeholder: string }[] = [
+  { field: 'event', label: 'Event', placeholder: 'Club Championship' },
+  { field: 'site', label: 'Site', placeholder: 'City, Country' },
+  { field: 'date', label: 'Date', placeholder: 'YYYY.MM.DD' },
+  { field: 'round', label: 'Round', placeholder: '1' },
+  { field: 'whitePlayer', label: 'White', placeholder: 'Last, First' },
+  { field: 'blackPlayer', label: 'Black', placeholder: 'Last, First' },
+]
+
+const optionalFields: { field: InfoField; label: string; placeholder: string }[] = [
+  { field: 'board', label: 'Board', placeholder: '1' },
+  { field: 'eco', label: 'ECO', placeholder: 'C42' },
+  { field: 'timeControl', label: 'Time Control', placeholder: '5400+30' },
+  { field: 'whiteElo', label: 'White Elo', placeholder: '1850' },
+  { field: 'blackElo', label: 'Black Elo', placeholder: '1790' },
+  { field: 'annotator', label: 'Annotator', placeholder: 'Your name' },
+]
+
+const results = [
+  { value: '*', label: '* (unknown)' },
+  { value: '1-0', label: '1-0 (White won)' },
+  { value: '0-1', label: '0-1 (Black won)' },
+  { value: '1/2-1/2', label: '1/2-1/2 (Draw)' },
+]
+
+export default function GameInfoForm({ metadata, errors, onChange }: GameInfoFormProps) {
+  const handleChange = (field: InfoField, value: string) => {
+    // A value typed by the user no longer carries the OCR confidence it was read with
+    const fieldConfidence = { ...metadata.fieldConfidence }
+    delete fieldConfidence[field as MetadataField]
+
+    onChange({
+      ...metadata,
+      [field]: value || undefined,
+      fieldConfidence,
+    })
+  }
+
+  const renderField = ({ field, label, placeholder }: { field: InfoField; label: string; placeholder: string }) => {
+    const confidence = metadata.fieldConfidence?.[field as MetadataField]
+    const error = errors[field]
+
+    return (
+      <label key={field} className="flex flex-col gap-1">
+        <span className="text-sm font-semibold text-contrast flex items-center justify-between">
+          {label}
+          {confidence !== undefined && (
+            <span className={`text-xs font-normal ${confidence < 80 ? 'text-yellow-700' : 'text-contrast/60'}`}>
+              Read from sheet · {Math.round(confidence)}%
+            </span>
+          )}
+        </span>
+        <input
+          type="text"
+          value={metadata[field] || ''}
+          onChange={(e) => handleChange(field, e.target.value)}
+          placeholder={placeholder}
+          className={`px-3 py-2 border rounded-lg text-sm ${
+            error ? 'border-red-500 bg-red-50' : 'border-gray-300 focus:border-primary'
+          }`}
+        />
+        {error && <span className="text-xs text-red-600">{error}</span>}
+      </label>
+    )
+  }
+
+  return (
+    <div className="bg-white border-2 border-primary rounded-xl p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-contrast mb-3">Game Details</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {rosterFields.map(renderField)}
+          <label className="flex flex-col gap-1">
+            <span className="text-sm font-semibold text-contrast flex items-center justify-between">
+              Result
+              {metadata.fieldConfidence?.result !== undefined && (
+                <span className={`text-xs font-normal ${metadata.fieldConfidence.result < 80 ? 'text-yellow-700' : 'text-contrast/60'}`}>
+                  Read from sheet · {Math.round(metadata.fieldConfidence.result)}%
+                </span>
+              )}
+            </span>
+            <select
+              value={metadata.result || '*'}
+              onChange={(e) => handleChange('result', e.target.value)}
+              className={`px-3 py-2 border rounded-lg text-sm bg-white ${
+                errors.result ? 'border-red-500 bg-red-50' : 'border-gray-300 focus:border-primary'
+              }`}
+            >
+              {results.map(result => (
+                <option key={result.value} value={result.value}>{result.label}</option>
+              ))}
+            </select>
+            {errors.result && <span className="text-xs text-red-600">{errors.result}</span>}
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-contrast mb-3">Optional Tags</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {optionalFields.map(renderField)}
+        </div>
+      </div>
+    </div>
+  )
+}
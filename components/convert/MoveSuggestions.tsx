@@ -0,0 +1,37 @@
+'use client'
+
+import type { CandidateMove } from '@/lib/pgn/reconstruction'
+
+export type MoveSuggestion = CandidateMove
+
+interface MoveSuggestionsProps {
+  suggestions: MoveSuggestion[]
+  onPick: (move: string) => void
+}
+
+const methodLabels: { [key in MoveSuggestion['method']]: string } = {
+  'pattern-based': 'OCR pattern',
+  levenshtein: 'similar text',
+  continuation: 'fits later moves',
+  notation: 'same move as written',
+}
+
+export default function MoveSuggestions({ suggestions, onPick }: MoveSuggestionsProps) {
+  if (suggestions.length === 0) return null
+
+  // A native select is not clipped by the scrolling moves table
+  return (
+    <select
+      value=""
+      onChange={(e) => e.target.value && onPick(e.target.value)}
+      className="w-full px-2 py-1 border border-accent2 rounded text-xs text-contrast bg-accent1"
+    >
+      <option value="">Suggestions ({suggestions.length})</option>
+      {suggestions.map(suggestion => (
+        <option key={suggestion.move} value={suggestion.move}>
+          {suggestion.move} · {Math.round(suggestion.score * 100)}% · {methodLabels[suggestion.method]}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import type { OcrBox } from '@/lib/ocr/document'
+
+export type SheetBox = {
+  id: string
+  box: OcrBox
+  tone: 'valid' | 'invalid'
+}
+
+interface ScoreSheetPreviewProps {
+  src: string
+  // Every move box, drawn when showAll is on
+  boxes: SheetBox[]
+  showAll: boolean
+  // The move being hovered or edited; highlighted and scrolled into view
+  activeBox?: OcrBox | null
+}
+
+const toneClasses: { [key in SheetBox['tone']]: string } = {
+  valid: 'border-green-600/70 bg-green-500/10',
+  invalid: 'border-red-600/80 bg-red-500/15',
+}
+
+// OCR boxes are fractions of the page, so they map straight to percentages of the image
+const boxStyle = (box: OcrBox) => ({
+  left: `${box.left * 100}%`,
+  top: `${box.top * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+})
+
+export default function ScoreSheetPreview({ src, boxes, showAll, activeBox }: ScoreSheetPreviewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const imageRef = useRef<HTMLImageElement>(null)
+
+  // Bring the handwriting of the active move into the middle of the view
+  useEffect(() => {
+    const container = scrollRef.current
+    const image = imageRef.current
+    if (!activeBox || !container || !image) return
+
+    const centerY = (activeBox.top + activeBox.height / 2) * image.clientHeight
+    const centerX = (activeBox.left + activeBox.width / 2) * image.clientWidth
+    container.scrollTo({
+      top: Math.max(0, centerY - container.clientHeight / 2),
+      left: Math.max(0, centerX - container.clientWidth / 2),
+      behavior: 'smooth',
+    })
+  }, [activeBox])
+
+  return (
+    <div ref={scrollRef} className="overflow-auto flex-1 border border-gray-200 rounded-lg">
+      <div className="relative">
+        <img
+          ref={imageRef}
+          src={src}
+          alt="Uploaded score sheet"
+          className="w-full h-auto"
+        />
+        {showAll && boxes.map(({ id, box, tone }) => (
+          <div
+            key={id}
+            className={`absolute border pointer-events-none ${toneClasses[tone]}`}
+            style={boxStyle(box)}
+          />
+        ))}
+        {activeBox && (
+          <div
+            className="absolute border-2 border-accent4 bg-accent4/20 rounded-sm pointer-events-none shadow-[0_0_0_4px_rgba(106,207,199,0.35)]"
+            style={boxStyle(activeBox)}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
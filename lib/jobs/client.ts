@@ -0,0 +1,66 @@
+import type { Job, JobStatus } from './jobs'
+import { PipelineError, isPipelineErrorCode } from './errors'
+
+/**
+ * Conversion jobs (browser side): start following an upload and wait for its results
+ * through the job API (app/api/jobs) instead of polling S3
+ */
+
+/**
+ * Start a job for an uploaded image
+ * @param key - The S3 key/path returned by uploadImage
+ */
+export async function createJob(key: string): Promise<Job> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ key }),
+  })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.details || body.error || 'Failed to start processing')
+  }
+  return body as Job
+}
+
+/**
+ * Wait for a job to finish, following its server-sent events
+ * Resolves with the Lambda's results, or null once `isCancelled` returns true, and fails
+ * with the job's error: a PipelineError when the job recorded a code.
+ */
+export function watchJob(
+  id: string,
+  { onStatus, isCancelled = () => false }: { onStatus?: (status: JobStatus) => void; isCancelled?: () => boolean } = {}
+): Promise<any | null> {
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`/api/jobs/${encodeURIComponent(id)}/events`)
+    const cancelCheck = setInterval(() => {
+      if (isCancelled()) finish(() => resolve(null))
+    }, 250)
+    const finish = (settle: () => void) => {
+      clearInterval(cancelCheck)
+      events.close()
+      settle()
+    }
+
+    events.addEventListener('status', event => {
+      onStatus?.(JSON.parse((event as MessageEvent).data).status)
+    })
+    events.addEventListener('done', event => {
+      finish(() => resolve(JSON.parse((event as MessageEvent).data).results))
+    })
+    events.addEventListener('failed', event => {
+      const job: Job = JSON.parse((event as MessageEvent).data)
+      const error = isPipelineErrorCode(job.code)
+        ? new PipelineError(job.code, { message: job.error, detail: job.detail })
+        : new Error(job.error || 'Processing failed')
+      finish(() => reject(error))
+    })
+    // A dropped connection is reopened by EventSource itself; one it gives up on is not
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        finish(() => reject(new Error('Lost the connection to the processing status')))
+      }
+    }
+  })
+}
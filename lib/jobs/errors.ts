@@ -0,0 +1,56 @@
+/**
+ * Why processing a score sheet failed
+ *
+ * The S3 trigger Lambda records one of these codes with every failed job, and the browser
+ * turns it into a message that says what to do about it. Shared with the Lambda through
+ * scripts/build-lambda-shared.js, so this file must not import anything.
+ */
+
+export type PipelineErrorCode =
+  | 'OCR_UNAVAILABLE'
+  | 'OCR_THROTTLED'
+  | 'UNSUPPORTED_IMAGE'
+  | 'NO_TABLE_FOUND'
+  | 'NO_MOVES'
+  | 'TIMEOUT'
+  | 'STORAGE_ERROR'
+  | 'INTERNAL_ERROR'
+
+export const PIPELINE_ERROR_MESSAGES: { [code in PipelineErrorCode]: string } = {
+  OCR_UNAVAILABLE:
+    'The OCR service could not be reached. Check that Amazon Textract is enabled for the AWS account in the Lambda\'s region and that the Lambda may call it.',
+  OCR_THROTTLED:
+    'The OCR service is busy right now. Try again in a minute; if it keeps happening, the account\'s Textract request quota may need raising.',
+  UNSUPPORTED_IMAGE:
+    'The image could not be read. Upload a JPEG or PNG photo of at most 10 MB.',
+  NO_TABLE_FOUND:
+    'No move table was found on the sheet. Take the photo again with the whole sheet in view, flat and well lit.',
+  NO_MOVES:
+    'The move table was found, but no moves could be read from it. Check that the photo is sharp and the moves are legible.',
+  TIMEOUT:
+    'Processing took too long and was stopped. Try again; if it keeps happening, try a smaller or clearer photo.',
+  STORAGE_ERROR:
+    'The results could not be saved. Check that the Lambda may write to the S3 bucket, then try again.',
+  INTERNAL_ERROR:
+    'Processing failed unexpectedly. The Lambda\'s CloudWatch logs have the details.',
+}
+
+export function isPipelineErrorCode(code: unknown): code is PipelineErrorCode {
+  return typeof code === 'string' && code in PIPELINE_ERROR_MESSAGES
+}
+
+/**
+ * A failed job, with the message to show for its code unless a more specific one is given
+ * `detail` keeps what actually went wrong (e.g. the Textract error) for the logs.
+ */
+export class PipelineError extends Error {
+  code: PipelineErrorCode
+  detail?: string
+
+  constructor(code: PipelineErrorCode, { message, detail }: { message?: string; detail?: string } = {}) {
+    super(message || PIPELINE_ERROR_MESSAGES[code])
+    this.name = 'PipelineError'
+    this.code = code
+    this.detail = detail
+  }
+}
@@ -0,0 +1,162 @@
+import { GetObjectCommand, HeadObjectCommand, S3Client } from '@aws-sdk/client-s3'
+import { PIPELINE_ERROR_MESSAGES, isPipelineErrorCode, type PipelineErrorCode } from './errors'
+
+/**
+ * Conversion jobs (server-side)
+ *
+ * A job follows one uploaded score sheet through the S3 trigger Lambda. The Lambda writes
+ * a status record to public/jobs/<key>.json as it goes (ocr, validating, done or failed);
+ * a job is queued from the upload until the record appears. Everything is read from the
+ * bucket, so any server instance can answer for any job. Records are read with the AWS SDK
+ * and the default credential chain, so the server needs read access to the bucket
+ * (s3:GetObject, and s3:ListBucket so missing records come back as not found).
+ */
+
+export type JobStatus = 'queued' | 'ocr' | 'validating' | 'done' | 'failed'
+
+export interface Job {
+  id: string
+  // S3 key of the uploaded image, as returned by uploadImage
+  key: string
+  status: JobStatus
+  // Why the job failed: a code, the message to show for it, and what actually went wrong
+  code?: PipelineErrorCode
+  error?: string
+  detail?: string
+  updatedAt: string
+}
+
+// What the Lambda writes to public/jobs/<key>.json
+interface JobRecord {
+  status: Exclude<JobStatus, 'queued'>
+  code?: PipelineErrorCode
+  error?: string
+  detail?: string
+  updatedAt: string
+}
+
+// The Lambda times out at 180s
+export const JOB_TIMEOUT_MS = 200000
+
+const REGION = process.env.NEXT_PUBLIC_AWS_REGION || process.env.AWS_REGION || 'ap-south-1'
+const BUCKET_NAME = process.env.NEXT_PUBLIC_AWS_S3_BUCKET || process.env.AWS_S3_BUCKET
+
+const s3Client = new S3Client({ region: REGION })
+
+/**
+ * Job id for an uploaded image: its key, URL-safe
+ */
+export function jobIdOf(key: string): string {
+  return Buffer.from(key).toString('base64url')
+}
+
+function keyOfJob(id: string): string | null {
+  const key = Buffer.from(id, 'base64url').toString()
+  return key && jobIdOf(key) === id ? key : null
+}
+
+function bucket(): string {
+  if (!BUCKET_NAME) throw new Error('Storage is not configured: set NEXT_PUBLIC_AWS_S3_BUCKET')
+  return BUCKET_NAME
+}
+
+function isNotFound(error: any): boolean {
+  return error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404
+}
+
+async function readJson(key: string): Promise<any | null> {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({ Bucket: bucket(), Key: key }))
+    return JSON.parse(await response.Body!.transformToString())
+  } catch (error: any) {
+    if (isNotFound(error)) return null
+    throw error
+  }
+}
+
+// When the image was uploaded, or null when there is none under the key
+async function uploadedAt(key: string): Promise<number | null> {
+  try {
+    const response = await s3Client.send(new HeadObjectCommand({ Bucket: bucket(), Key: `public/${key}` }))
+    return response.LastModified?.getTime() ?? Date.now()
+  } catch (error: any) {
+    if (isNotFound(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Start following an uploaded image; the upload itself triggers the Lambda
+ * Null when there is no uploaded image under the key.
+ */
+export async function createJob(key: string): Promise<Job | null> {
+  return getJob(jobIdOf(key))
+}
+
+/**
+ * Current state of a job, or null when the id is not an uploaded image's and the Lambda
+ * has not written anything for it
+ */
+export async function getJob(id: string): Promise<Job | null> {
+  const key = keyOfJob(id)
+  if (!key) return null
+
+  const record: JobRecord | null = await readJson(`public/jobs/${key}.json`)
+  // Results from a Lambda that does not write status records
+  const results = record ? null : await readJson(`public/results/${key}.json`)
+  let job: Job
+  if (record) {
+    job = {
+      id,
+      key,
+      status: record.status,
+      ...(record.code ? { code: record.code } : {}),
+      ...(record.error ? { error: record.error } : {}),
+      ...(record.detail ? { detail: record.detail } : {}),
+      updatedAt: record.updatedAt,
+    }
+  } else if (results?.failure) {
+    // A sheet with nothing to review is saved with why
+    job = {
+      id,
+      key,
+      status: 'failed',
+      code: isPipelineErrorCode(results.failure.code) ? results.failure.code : 'INTERNAL_ERROR',
+      error: results.failure.message || PIPELINE_ERROR_MESSAGES.INTERNAL_ERROR,
+      ...(results.failure.detail ? { detail: results.failure.detail } : {}),
+      updatedAt: new Date().toISOString(),
+    }
+  } else if (results) {
+    job = { id, key, status: 'done', updatedAt: new Date().toISOString() }
+  } else {
+    const uploaded = await uploadedAt(key)
+    if (uploaded === null) return null
+    job = { id, key, status: 'queued', updatedAt: new Date(uploaded).toISOString() }
+  }
+
+  if (job.status === 'done' || job.status === 'failed') return job
+
+  // A job the Lambda never finished, timed from the upload
+  const since = job.status === 'queued' ? Date.parse(job.updatedAt) : await uploadedAt(key) ?? Date.parse(job.updatedAt)
+  if (Date.now() - since > JOB_TIMEOUT_MS) {
+    return {
+      ...job,
+      status: 'failed',
+      code: 'TIMEOUT',
+      error: job.status === 'queued'
+        ? `Processing did not start within ~${Math.round(JOB_TIMEOUT_MS / 1000)} seconds. Check that the S3 trigger is configured for the Lambda function.`
+        : `Processing timeout after ~${Math.round(JOB_TIMEOUT_MS / 1000)} seconds. Check CloudWatch logs for the Lambda function.`,
+      updatedAt: new Date().toISOString(),
+    }
+  }
+  return job
+}
+
+/**
+ * The results the Lambda saved for a finished job
+ */
+export async function getJobResults(job: Job): Promise<any> {
+  const results = await readJson(`public/results/${job.key}.json`)
+  if (!results) throw new Error('Results not found')
+  return results
+}
@@ -0,0 +1,111 @@
+import type { OcrBox, OcrCell, OcrDocument, OcrLine, OcrPage, OcrWord } from './document'
+
+/**
+ * Textract's block shape, and its mapping into the OCR document model
+ *
+ * Kept apart from the Textract adapter so the browser and the S3 trigger Lambda can
+ * read Textract results without pulling in the AWS SDK.
+ */
+
+export interface BoundingBox {
+  Width: number
+  Height: number
+  Left: number
+  Top: number
+}
+
+export interface TextractBlock {
+  BlockType: string
+  Id?: string
+  Text?: string
+  Geometry?: {
+    BoundingBox: BoundingBox
+  }
+  Confidence?: number
+  // Table-specific fields
+  RowIndex?: number
+  ColumnIndex?: number
+  RowSpan?: number
+  ColumnSpan?: number
+  Relationships?: Array<{
+    Type: string
+    Ids: string[]
+  }>
+}
+
+export interface TextractResponse {
+  Blocks: TextractBlock[]
+}
+
+function toBox(box: BoundingBox | undefined): OcrBox | undefined {
+  return box && { left: box.Left, top: box.Top, width: box.Width, height: box.Height }
+}
+
+function childIds(block: TextractBlock): string[] {
+  return (block.Relationships || []).filter(rel => rel.Type === 'CHILD').flatMap(rel => rel.Ids)
+}
+
+/**
+ * Map a Textract response into the OCR document model
+ * Textract reads one image as one page. Cells keep the text the Lambda filled in, or
+ * the text of their words.
+ */
+export function fromTextract(response: TextractResponse): OcrDocument {
+  const blocks = response.Blocks || []
+  const words = new Map<string, OcrWord>()
+  const loose: OcrWord[] = []
+  blocks
+    .filter(block => block.BlockType === 'WORD' && block.Text)
+    .forEach(block => {
+      const word = { text: block.Text!, confidence: block.Confidence ?? 0, box: toBox(block.Geometry?.BoundingBox) }
+      if (block.Id) words.set(block.Id, word)
+      else loose.push(word)
+    })
+  const wordsOf = (block: TextractBlock) =>
+    childIds(block).map(id => words.get(id)).filter((word): word is OcrWord => !!word)
+
+  const lines: OcrLine[] = blocks
+    .filter(block => block.BlockType === 'LINE' && block.Text)
+    .map(block => ({
+      text: block.Text!,
+      confidence: block.Confidence ?? 0,
+      box: toBox(block.Geometry?.BoundingBox),
+      words: wordsOf(block),
+    }))
+
+  const toCell = (block: TextractBlock): OcrCell => {
+    const cellWords = wordsOf(block)
+    return {
+      row: block.RowIndex || 0,
+      column: block.ColumnIndex || 0,
+      rowSpan: block.RowSpan || 1,
+      columnSpan: block.ColumnSpan || 1,
+      text: block.Text ?? cellWords.map(word => word.text).join(' '),
+      confidence: block.Confidence ?? 0,
+      box: toBox(block.Geometry?.BoundingBox),
+      words: cellWords,
+    }
+  }
+
+  const cells = new Map(
+    blocks.filter(block => block.BlockType === 'CELL').map((block, index) => [block.Id || `cell-${index}`, block])
+  )
+  const claimed = new Set<string>()
+  const tables = blocks
+    .filter(block => block.BlockType === 'TABLE')
+    .map(table => ({
+      box: toBox(table.Geometry?.BoundingBox),
+      cells: childIds(table).flatMap(id => {
+        const cell = cells.get(id)
+        if (!cell) return []
+        claimed.add(id)
+        return [toCell(cell)]
+      }),
+    }))
+  // Cells saved without their TABLE block still form a table
+  const orphans = Array.from(cells).filter(([id]) => !claimed.has(id)).map(([, cell]) => toCell(cell))
+  if (orphans.length > 0) tables.push({ box: undefined, cells: orphans })
+
+  const page: OcrPage = { words: [...Array.from(words.values()), ...loose], lines, tables }
+  return { provider: 'textract', pages: [page] }
+}
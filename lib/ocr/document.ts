@@ -0,0 +1,86 @@
+/**
+ * Provider-neutral OCR document model
+ *
+ * Every OCR engine's output is mapped into this shape by an adapter (./textract,
+ * ./tesseract), so the rest of the app does not depend on one engine. Geometry is in
+ * fractions of the page (0-1, origin top left) and confidence in percent (0-100), as
+ * Textract reports them.
+ */
+
+export interface OcrBox {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface OcrWord {
+  text: string
+  confidence: number
+  box?: OcrBox
+}
+
+// Text made of words: a line, or a table cell
+export interface OcrTextBlock {
+  text: string
+  confidence: number
+  box?: OcrBox
+  words: OcrWord[]
+}
+
+export type OcrLine = OcrTextBlock
+
+export interface OcrCell extends OcrTextBlock {
+  // 1-based, as in Textract
+  row: number
+  column: number
+  rowSpan: number
+  columnSpan: number
+}
+
+export interface OcrTable {
+  box?: OcrBox
+  cells: OcrCell[]
+}
+
+export interface OcrPage {
+  // Every word on the page; lines and cells refer to the same word objects
+  words: OcrWord[]
+  lines: OcrLine[]
+  // Engines without table detection leave this empty; sheets are then read line by line
+  tables: OcrTable[]
+}
+
+export interface OcrDocument {
+  // Engine the document came from, e.g. 'textract' or 'tesseract'
+  provider: string
+  pages: OcrPage[]
+}
+
+// An image file's bytes (Node) or a File/Blob (browser)
+export type OcrImage = Uint8Array | Blob
+
+export interface OcrOptions {
+  // Tesseract language codes; ignored by engines that detect the language
+  languages?: string[]
+}
+
+export interface OcrProvider {
+  name: string
+  recognize(image: OcrImage, options?: OcrOptions): Promise<OcrDocument>
+}
+
+export type OcrProviderName = 'textract' | 'tesseract'
+
+/**
+ * Load an OCR engine by name
+ * Adapters are imported on demand, so the browser bundle only pulls in the engine it uses.
+ */
+export async function loadOcrProvider(name: OcrProviderName): Promise<OcrProvider> {
+  switch (name) {
+    case 'textract':
+      return (await import('./textract')).textractProvider
+    case 'tesseract':
+      return (await import('./tesseract')).tesseractProvider
+  }
+}
@@ -0,0 +1,103 @@
+import { createWorker } from 'tesseract.js'
+import type Tesseract from 'tesseract.js'
+import type { OcrBox, OcrDocument, OcrImage, OcrOptions, OcrProvider, OcrWord } from './document'
+
+/**
+ * Tesseract adapter: local, offline OCR through tesseract.js (WebAssembly)
+ *
+ * Runs in the browser and in Node without an AWS account. Tesseract finds words and
+ * lines but no tables, so its sheets are read line by line (see analyzeLineLayout).
+ * Language data is fetched from the tesseract.js CDN unless TESSERACT_LANG_PATH
+ * (NEXT_PUBLIC_TESSERACT_LANG_PATH in the browser) points at a local copy.
+ */
+
+const LANG_PATH = process.env.TESSERACT_LANG_PATH || process.env.NEXT_PUBLIC_TESSERACT_LANG_PATH
+
+interface ImageSize {
+  width: number
+  height: number
+}
+
+/**
+ * Pixel size of a PNG or JPEG image from its header, or null for other formats
+ */
+function imageSize(bytes: Uint8Array): ImageSize | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  // PNG: the IHDR chunk follows the 8-byte signature
+  if (bytes.length >= 24 && view.getUint32(0) === 0x89504e47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) }
+  }
+
+  // JPEG: walk the segments to a start-of-frame marker
+  if (bytes.length >= 4 && view.getUint16(0) === 0xffd8) {
+    let offset = 2
+    while (offset + 9 < bytes.length) {
+      const marker = view.getUint16(offset)
+      const length = view.getUint16(offset + 2)
+      if (marker >= 0xffc0 && marker <= 0xffcf && ![0xffc4, 0xffc8, 0xffcc].includes(marker)) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) }
+      }
+      offset += 2 + length
+    }
+  }
+
+  return null
+}
+
+/**
+ * Map a Tesseract result into the OCR document model
+ * Pixel boxes become fractions of the image. Without the image size, the extent of
+ * the text stands in for the page.
+ */
+export function fromTesseract(page: Tesseract.Page, size: ImageSize | null = null): OcrDocument {
+  const extent = size || {
+    width: Math.max(1, ...page.words.map(word => word.bbox.x1)),
+    height: Math.max(1, ...page.words.map(word => word.bbox.y1)),
+  }
+  const toBox = ({ x0, y0, x1, y1 }: Tesseract.Bbox): OcrBox => ({
+    left: x0 / extent.width,
+    top: y0 / extent.height,
+    width: (x1 - x0) / extent.width,
+    height: (y1 - y0) / extent.height,
+  })
+
+  const words = new Map<Tesseract.Word, OcrWord>()
+  const wordOf = (word: Tesseract.Word): OcrWord => {
+    let mapped = words.get(word)
+    if (!mapped) {
+      mapped = { text: word.text, confidence: word.confidence, box: toBox(word.bbox) }
+      words.set(word, mapped)
+    }
+    return mapped
+  }
+
+  const ocrWords = page.words.filter(word => word.text.trim()).map(wordOf)
+  const lines = page.lines
+    .filter(line => line.text.trim())
+    .map(line => ({
+      text: line.text.trim(),
+      confidence: line.confidence,
+      box: toBox(line.bbox),
+      words: line.words.filter(word => word.text.trim()).map(wordOf),
+    }))
+
+  return { provider: 'tesseract', pages: [{ words: ocrWords, lines, tables: [] }] }
+}
+
+export const tesseractProvider: OcrProvider = {
+  name: 'tesseract',
+  async recognize(image: OcrImage, options: OcrOptions = {}): Promise<OcrDocument> {
+    const bytes = image instanceof Uint8Array ? image : new Uint8Array(await image.arrayBuffer())
+    // tesseract.js takes a Buffer in Node and a Blob in the browser
+    const input = typeof window === 'undefined' ? Buffer.from(bytes) : new Blob([Uint8Array.from(bytes)])
+
+    const worker = await createWorker(options.languages || ['eng'], undefined, LANG_PATH ? { langPath: LANG_PATH } : {})
+    try {
+      const { data } = await worker.recognize(input)
+      return fromTesseract(data, imageSize(bytes))
+    } finally {
+      await worker.terminate()
+    }
+  },
+}
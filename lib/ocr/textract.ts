@@ -0,0 +1,33 @@
+import { AnalyzeDocumentCommand, TextractClient } from '@aws-sdk/client-textract'
+import { fromTextract, type TextractBlock } from './blocks'
+import type { OcrDocument, OcrImage, OcrProvider } from './document'
+
+export { fromTextract } from './blocks'
+
+/**
+ * Amazon Textract adapter
+ *
+ * Sends images to AnalyzeDocument and maps the blocks into the OCR document model.
+ */
+
+const REGION = process.env.AWS_REGION || process.env.NEXT_PUBLIC_AWS_REGION || 'ap-south-1'
+
+async function imageBytes(image: OcrImage): Promise<Uint8Array> {
+  return image instanceof Uint8Array ? image : new Uint8Array(await image.arrayBuffer())
+}
+
+/**
+ * Textract through the AWS SDK, with the TABLES feature only, as in the S3 trigger
+ * Uses the default AWS credential chain, so it runs server-side or from the command line.
+ */
+export const textractProvider: OcrProvider = {
+  name: 'textract',
+  async recognize(image: OcrImage): Promise<OcrDocument> {
+    const client = new TextractClient({ region: REGION })
+    const response = await client.send(new AnalyzeDocumentCommand({
+      Document: { Bytes: await imageBytes(image) },
+      FeatureTypes: ['TABLES'],
+    }))
+    return fromTextract({ Blocks: (response.Blocks || []) as TextractBlock[] })
+  },
+}
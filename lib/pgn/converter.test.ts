@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Chess } from 'chess.js'
+import { convertToPGN, convertToPGNDatabase, decidedResult, validatePGN } from './converter'
+import type { GameMetadata, ParsedChessGame } from './parser'
+
+const OPERA_GAME = [
+  'e4', 'e5', 'Nf3', 'd6', 'd4', 'Bg4', 'dxe5', 'Bxf3', 'Qxf3', 'dxe5', 'Bc4', 'Nf6',
+  'Qb3', 'Qe7', 'Nc3', 'c6', 'Bg5', 'b5', 'Nxb5', 'cxb5', 'Bxb5+', 'Nbd7', 'O-O-O', 'Rd8',
+  'Rxd7', 'Rxd7', 'Rd1', 'Qe6', 'Bxd7+', 'Nxd7', 'Qb8+', 'Nxb8', 'Rd8#',
+]
+
+function game(moves: string[], metadata: GameMetadata = {}): ParsedChessGame {
+  return { rawText: '', moves, metadata, confidence: 0 }
+}
+
+// Load PGN with chess.js, as the review board and most JavaScript tools do
+function load(pgn: string): Chess {
+  const board = new Chess()
+  board.loadPgn(pgn)
+  return board
+}
+
+describe('convertToPGN', () => {
+  it('writes a game chess.js loads with the same moves and tags', () => {
+    const pgn = convertToPGN(game(OPERA_GAME, {
+      event: 'Paris',
+      site: 'Paris FRA',
+      date: '1858.11.02',
+      whitePlayer: 'Morphy, Paul',
+      blackPlayer: 'Duke Karl / Count Isouard',
+      result: '1-0',
+      whiteElo: '2690',
+    }))
+
+    const board = load(pgn)
+    assert.deepEqual(board.history(), OPERA_GAME)
+    assert.equal(board.isCheckmate(), true)
+    assert.deepEqual(board.getHeaders(), {
+      Event: 'Paris',
+      Site: 'Paris FRA',
+      Date: '1858.11.02',
+      Round: '?',
+      White: 'Morphy, Paul',
+      Black: 'Duke Karl / Count Isouard',
+      Result: '1-0',
+      WhiteElo: '2690',
+    })
+    assert.deepEqual(validatePGN(pgn), { valid: true, errors: [], games: 1 })
+  })
+
+  it('escapes quotes and backslashes in tag values', () => {
+    const pgn = convertToPGN(game(['e4', 'e5'], { whitePlayer: 'Morphy, "Paul" \\ x', event: 'Club "Open"' }))
+
+    assert.ok(pgn.includes('[White "Morphy, \\"Paul\\" \\\\ x"]'))
+    assert.ok(pgn.includes('[Event "Club \\"Open\\""]'))
+    assert.deepEqual(validatePGN(pgn), { valid: true, errors: [], games: 1 })
+  })
+
+  it('writes an escaped backslash chess.js can still load', () => {
+    // chess.js keeps the escape in the value, but only an escaped quote stops it loading the game
+    const pgn = convertToPGN(game(['e4'], { site: 'C:\\Clubs' }))
+
+    assert.deepEqual(load(pgn).history(), ['e4'])
+  })
+
+  it('keeps brackets and other movetext characters inside tag values', () => {
+    const pgn = convertToPGN(game(['d4'], { event: 'Cup [final] {A} (1) ; x' }))
+
+    assert.equal(load(pgn).getHeaders().Event, 'Cup [final] {A} (1) ; x')
+    assert.deepEqual(validatePGN(pgn).errors, [])
+  })
+
+  it('puts line breaks in tag values on one line', () => {
+    const pgn = convertToPGN(game(['e4'], { site: 'Hastings\nEngland\t' }))
+
+    assert.equal(load(pgn).getHeaders().Site, 'Hastings England')
+  })
+
+  it('writes a database chess.js loads game by game', () => {
+    const pgn = convertToPGNDatabase([
+      game(['e4', 'c5'], { round: '1', board: '1', whitePlayer: 'Morphy, Paul' }),
+      game(['d4', 'Nf6', 'c4'], { round: '1', board: '2', result: '1/2-1/2' }),
+    ])
+    const games = pgn.split(/\n\n(?=\[Event )/)
+
+    assert.equal(games.length, 2)
+    assert.deepEqual(load(games[0]).history(), ['e4', 'c5'])
+    assert.deepEqual(load(games[1]).history(), ['d4', 'Nf6', 'c4'])
+    assert.equal(load(games[1]).getHeaders().Result, '1/2-1/2')
+    assert.deepEqual(validatePGN(pgn), { valid: true, errors: [], games: 2 })
+  })
+})
+
+describe('validatePGN', () => {
+  it('accepts escaped quotes in tag values, which chess.js cannot load', () => {
+    const pgn = '[Event "?"]\n[White "Morphy, \\"Paul\\""]\n[Result "*"]\n\n1. e4 *\n'
+
+    assert.throws(() => load(pgn))
+    assert.deepEqual(validatePGN(pgn), { valid: true, errors: [], games: 1 })
+  })
+
+  it('reports an illegal move with its half-move', () => {
+    const { valid, errors } = validatePGN('[Result "*"]\n\n1. e4 e5 2. Ke3 *\n')
+
+    assert.equal(valid, false)
+    assert.deepEqual(errors.map(error => [error.message, error.ply]), [['Illegal move Ke3', 3]])
+  })
+
+  it('reports a result the final position contradicts', () => {
+    const moves = OPERA_GAME.map((move, index) => (index % 2 === 0 ? `${index / 2 + 1}. ${move}` : move)).join(' ')
+    const { errors } = validatePGN(`[Result "*"]\n\n${moves} *\n`)
+
+    assert.deepEqual(errors.map(error => error.message), ['The game ends in checkmate, so the result is 1-0'])
+  })
+})
+
+describe('decidedResult', () => {
+  it('takes the result from a checkmate or a drawn final position', () => {
+    assert.equal(decidedResult(OPERA_GAME), '1-0')
+    assert.equal(decidedResult(['f3', 'e5', 'g4', 'Qh4#']), '0-1')
+    assert.equal(decidedResult([
+      'e3', 'a5', 'Qh5', 'Ra6', 'Qxa5', 'h5', 'h4', 'Rah6', 'Qxc7', 'f6', 'Qxd7+', 'Kf7',
+      'Qxb7', 'Qd3', 'Qxb8', 'Qh7', 'Qxc8', 'Kg6', 'Qe6',
+    ]), '1/2-1/2')
+  })
+
+  it('decides nothing for an unfinished game or one with an illegal move', () => {
+    assert.equal(decidedResult(['e4', 'e5']), undefined)
+    assert.equal(decidedResult(['e4', 'Ke3']), undefined)
+  })
+
+  it('lets a game without a written result pass validation', () => {
+    const pgn = convertToPGN(game(OPERA_GAME, { result: decidedResult(OPERA_GAME) }))
+
+    assert.deepEqual(validatePGN(pgn).errors, [])
+  })
+})
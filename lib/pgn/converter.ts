@@ -1,134 +1,197 @@
 import type { ParsedChessGame, GameMetadata } from './parser'
+import { Chess } from 'chess.js'
+import { splitAnnotation } from './san'
 
 /**
  * Convert parsed chess game data to PGN format
+ * Games are written in the PGN export format: the Seven Tag Roster first and in order,
+ * other tags after it in ASCII order, movetext wrapped at 80 columns and ended by the
+ * game termination marker. Quotes and backslashes in tag values are escaped as the
+ * standard asks; chess.js (loadPgn) has no escapes and cannot load a game with a quote
+ * in a tag value.
  */
 
 export interface PGNOptions {
   includeMetadata?: boolean
   includeComments?: boolean
+  // Moves read below this OCR confidence get their own {Confidence: N%} comment
+  confidenceThreshold?: number
 }
 
+// Longest movetext line in export format
+const PGN_LINE_WIDTH = 80
+
+const TERMINATION_MARKERS = ['1-0', '0-1', '1/2-1/2', '*']
+
 /**
- * Format a single move in PGN format
+ * Write a half-move for PGN movetext; annotation glyphs become NAGs ("e4!?" → "e4 $5")
  */
-function formatMove(move: string): string {
-  // Clean up the move - remove move numbers if present
-  // "1. e4" -> "e4"
-  let cleaned = move.replace(/^\d+\.?\s*/, '').trim()
-  
-  // Split into white and black moves if both present
-  const parts = cleaned.split(/\s+/)
-  
-  return parts.join(' ')
+function formatHalfMove(text: string): string[] {
+  const { move, nag } = splitAnnotation(text)
+  return nag ? [move, `$${nag}`] : [move]
 }
 
 /**
- * Convert moves array to PGN move text
+ * Comment tokens; a comment cannot hold its closing brace, so braces become parentheses
+ */
+function formatComment(text: string): string[] {
+  const words = text.replace(/[{]/g, '(').replace(/[}]/g, ')').split(/\s+/).filter(Boolean)
+  if (words.length === 0) return []
+  words[0] = `{${words[0]}`
+  words[words.length - 1] = `${words[words.length - 1]}}`
+  return words
+}
+
+/**
+ * Split moves into white/black pairs with their move numbers
  * Handles two formats:
  * 1. Moves with numbers: ["1. e4 e5", "2. Nf3 Nc6"]
  * 2. Raw moves: ["e4", "e5", "Nf3", "Nc6"] (from Lambda validated moves)
  */
-function formatMoves(moves: string[]): string {
-  if (moves.length === 0) {
-    return '*'
-  }
+function pairMoves(
+  moves: string[],
+  comments: Array<string | undefined>
+): Array<{ number: number; white?: string; black?: string; whiteComment?: string; blackComment?: string }> {
+  // Check if moves have move numbers (format 1) or are raw (format 2); "0-0" is not one
+  const hasMoveNumbers = moves.some(move => /^\d+(\.+\s*|\s+)/.test(move))
 
-  // Check if moves have move numbers (format 1) or are raw (format 2)
-  const hasMoveNumbers = moves.some(move => /^\d+\.?\s*/.test(move))
-  
   if (hasMoveNumbers) {
-    // Format 1: Moves with numbers (e.g., "1. e4 e5")
-    const formattedMoves: string[] = []
     let moveNumber = 1
-
-    for (const move of moves) {
-      // Extract move number from the move string
+    return moves.flatMap(move => {
       const moveNumberMatch = move.match(/^(\d+)\.?\s*/)
-      if (moveNumberMatch) {
-        moveNumber = parseInt(moveNumberMatch[1], 10)
-      }
+      if (moveNumberMatch) moveNumber = parseInt(moveNumberMatch[1], 10)
 
-      // Remove move number prefix
-      const moveText = move.replace(/^\d+\.?\s*/, '').trim()
-      
-      // Split into white and black moves
-      const parts = moveText.split(/\s+/)
-      
-      if (parts.length >= 2) {
-        // Both white and black moves
-        formattedMoves.push(`${moveNumber}. ${parts[0]} ${parts[1]}`)
-        moveNumber++
-      } else if (parts.length === 1) {
-        // Only white move (last move of game)
-        formattedMoves.push(`${moveNumber}. ${parts[0]}`)
-      }
-    }
-
-    return formattedMoves.join(' ')
-  } else {
-    // Format 2: Raw moves (e.g., ["e4", "e5", "Nf3", "Nc6"])
-    // Pair them into white/black moves
-    const formattedMoves: string[] = []
-    let moveNumber = 1
-
-    for (let i = 0; i < moves.length; i += 2) {
-      const whiteMove = moves[i]?.trim()
-      const blackMove = moves[i + 1]?.trim()
-      
-      if (whiteMove) {
-        if (blackMove) {
-          // Both white and black moves
-          formattedMoves.push(`${moveNumber}. ${whiteMove} ${blackMove}`)
-        } else {
-          // Only white move (last move of game)
-          formattedMoves.push(`${moveNumber}. ${whiteMove}`)
-        }
-        moveNumber++
-      }
-    }
+      const parts = move.replace(/^\d+\.?\s*/, '').trim().split(/\s+/).filter(Boolean)
+      if (parts.length === 0) return []
+      return [{ number: moveNumber++, white: parts[0], black: parts[1] }]
+    })
+  }
 
-    return formattedMoves.join(' ')
+  const pairs = []
+  for (let i = 0; i < moves.length; i += 2) {
+    const white = moves[i]?.trim()
+    if (!white) continue
+    pairs.push({
+      number: i / 2 + 1,
+      white,
+      black: moves[i + 1]?.trim() || undefined,
+      whiteComment: comments[i],
+      blackComment: comments[i + 1],
+    })
   }
+  return pairs
 }
 
 /**
- * Format metadata tags for PGN
+ * Wrap movetext tokens into lines of at most PGN_LINE_WIDTH characters
  */
-function formatMetadata(metadata: GameMetadata): string {
-  const tags: string[] = []
+function wrapTokens(tokens: string[]): string {
+  const lines: string[] = []
+  let line = ''
+  tokens.forEach(token => {
+    if (line && line.length + 1 + token.length > PGN_LINE_WIDTH) {
+      lines.push(line)
+      line = token
+    } else {
+      line = line ? `${line} ${token}` : token
+    }
+  })
+  if (line) lines.push(line)
+  return lines.join('\n')
+}
 
-  if (metadata.event) {
-    tags.push(`[Event "${metadata.event}"]`)
-  }
+/**
+ * Convert moves array to PGN move text ending in the termination marker
+ */
+function formatMoves(moves: string[], result: string, comments: Array<string | undefined> = [], gameComment?: string): string {
+  const tokens: string[] = []
+
+  pairMoves(moves, comments).forEach(({ number, white, black, whiteComment, blackComment }) => {
+    tokens.push(`${number}.`, ...formatHalfMove(white!))
+    if (whiteComment) tokens.push(...formatComment(whiteComment))
+    if (black) {
+      // Black is renumbered after a comment on White's move
+      if (whiteComment) tokens.push(`${number}...`)
+      tokens.push(...formatHalfMove(black))
+      if (blackComment) tokens.push(...formatComment(blackComment))
+    }
+  })
+  if (gameComment) tokens.push(...formatComment(gameComment))
+  tokens.push(result)
 
-  if (metadata.site) {
-    tags.push(`[Site "${metadata.site}"]`)
-  }
+  return wrapTokens(tokens)
+}
 
-  if (metadata.date) {
-    tags.push(`[Date "${metadata.date}"]`)
-  }
+/**
+ * Write a tag value: backslashes and double quotes are escaped with a backslash, and
+ * line breaks and tabs become spaces (a tag pair is one line)
+ */
+function formatTagValue(value: string): string {
+  return value
+    .replace(/[\r\n\t]+/g, ' ')
+    .trim()
+    .replace(/[\\"]/g, '\\$&')
+}
 
-  if (metadata.whitePlayer) {
-    tags.push(`[White "${metadata.whitePlayer}"]`)
-  } else {
-    tags.push(`[White "?"]`)
-  }
+/**
+ * Format metadata tags for PGN
+ * The Seven Tag Roster is always written, with "?" (or "????.??.??") for unknown values.
+ */
+function formatMetadata(metadata: GameMetadata, result: string): string {
+  const roster: Array<[string, string]> = [
+    ['Event', metadata.event || '?'],
+    ['Site', metadata.site || '?'],
+    ['Date', metadata.date || '????.??.??'],
+    ['Round', metadata.round || '?'],
+    ['White', metadata.whitePlayer || '?'],
+    ['Black', metadata.blackPlayer || '?'],
+    ['Result', result],
+  ]
+
+  const supplemental: Array<[string, string | undefined]> = [
+    ['Annotator', metadata.annotator],
+    ['BlackElo', metadata.blackElo],
+    ['Board', metadata.board],
+    ['ECO', metadata.eco],
+    ['TimeControl', metadata.timeControl],
+    ['WhiteElo', metadata.whiteElo],
+  ]
+
+  return [...roster, ...supplemental]
+    .filter((tag): tag is [string, string] => !!tag[1])
+    .map(([name, value]) => `[${name} "${formatTagValue(value)}"]`)
+    .join('\n')
+}
 
-  if (metadata.blackPlayer) {
-    tags.push(`[Black "${metadata.blackPlayer}"]`)
-  } else {
-    tags.push(`[Black "?"]`)
+/**
+ * The game's result: the Result tag, or a result written as the last move, else "*"
+ */
+function gameResult(parsedGame: ParsedChessGame): { moves: string[]; result: string } {
+  const moves = [...parsedGame.moves]
+  const last = moves[moves.length - 1]?.trim()
+  const written = last && TERMINATION_MARKERS.includes(last) ? moves.pop() : undefined
+  const tagged = parsedGame.metadata.result
+  return {
+    moves,
+    result: tagged && TERMINATION_MARKERS.includes(tagged) ? tagged : written?.trim() || '*',
   }
+}
 
-  if (metadata.result) {
-    tags.push(`[Result "${metadata.result}"]`)
-  } else {
-    tags.push(`[Result "*"]`)
+/**
+ * The result the final position decides (mate, stalemate or dead position), if any
+ * Stands in for the result a reviewer picks on the convert page when the sheet has none.
+ * Moves that are not legal decide nothing.
+ */
+export function decidedResult(moves: string[]): string | undefined {
+  const board = new Chess()
+  try {
+    moves.forEach(move => board.move(move))
+  } catch {
+    return undefined
   }
-
-  return tags.join('\n')
+  if (board.isCheckmate()) return board.turn() === 'w' ? '0-1' : '1-0'
+  if (board.isStalemate() || board.isInsufficientMaterial()) return '1/2-1/2'
+  return undefined
 }
 
 /**
@@ -138,63 +201,389 @@ export function convertToPGN(
   parsedGame: ParsedChessGame,
   options: PGNOptions = {}
 ): string {
-  const { includeMetadata = true, includeComments = false } = options
+  const { includeMetadata = true, includeComments = false, confidenceThreshold = 80 } = options
+  const { moves, result } = gameResult(parsedGame)
 
   const pgnParts: string[] = []
 
   // Add metadata tags
   if (includeMetadata) {
-    pgnParts.push(formatMetadata(parsedGame.metadata))
+    pgnParts.push(formatMetadata(parsedGame.metadata, result))
     pgnParts.push('') // Empty line between tags and moves
   }
 
-  // Add move text
-  const moveText = formatMoves(parsedGame.moves)
-  pgnParts.push(moveText)
+  // Flag individual moves the OCR was unsure about
+  const moveComments = includeComments
+    ? moves.map((_, index) => {
+        const confidence = parsedGame.moveSources?.[index]?.confidence
+        return confidence !== undefined && confidence < confidenceThreshold
+          ? `Confidence: ${Math.round(confidence)}%`
+          : undefined
+      })
+    : []
 
-  // Add result if not already in moves
-  if (!moveText.includes(parsedGame.metadata.result || '*')) {
-    if (parsedGame.metadata.result) {
-      pgnParts.push(parsedGame.metadata.result)
-    } else {
-      pgnParts.push('*')
-    }
+  // The overall confidence comes before the termination marker, which ends the game
+  const gameComment = includeComments && parsedGame.confidence > 0
+    ? `Confidence: ${Math.round(parsedGame.confidence)}%`
+    : undefined
+
+  pgnParts.push(formatMoves(moves, result, moveComments, gameComment))
+
+  return pgnParts.join('\n') + '\n'
+}
+
+export interface PGNDatabaseOptions extends PGNOptions {
+  // Order games by round, then board; games without them keep their place after the rest
+  sortByRound?: boolean
+  // Leave out games with the same players and moves as an earlier one (a sheet uploaded twice)
+  dedupe?: boolean
+}
+
+/**
+ * Compare dotted round numbers ("2" < "2.1" < "10"); unknown rounds sort last
+ */
+function compareNumbering(a: string | undefined, b: string | undefined): number {
+  const partsOf = (value: string | undefined) =>
+    value && /^\d+(\.\d+)*$/.test(value) ? value.split('.').map(Number) : null
+  const partsA = partsOf(a)
+  const partsB = partsOf(b)
+  if (!partsA || !partsB) return partsA ? -1 : partsB ? 1 : 0
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] ?? -1) - (partsB[i] ?? -1)
+    if (difference !== 0) return difference
+  }
+  return 0
+}
+
+// Same players and moves; letter case and spacing from OCR do not count
+function gameKey(game: ParsedChessGame): string {
+  const player = (name: string | undefined) => (name || '').trim().replace(/\s+/g, ' ').toLowerCase()
+  return [player(game.metadata.whitePlayer), player(game.metadata.blackPlayer), ...game.moves.map(move => move.trim())].join('|')
+}
+
+/**
+ * Convert several games to one PGN database (a .pgn file of many games)
+ * Every game carries the full Seven Tag Roster and games are separated by a blank line,
+ * so the file imports into ChessBase or Lichess in one go.
+ */
+export function convertToPGNDatabase(
+  games: ParsedChessGame[],
+  options: PGNDatabaseOptions = {}
+): string {
+  const { sortByRound = false, dedupe = false, ...pgnOptions } = options
+
+  let selected = games
+  if (dedupe) {
+    const seen = new Set<string>()
+    selected = selected.filter(game => {
+      const key = gameKey(game)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+  if (sortByRound) {
+    // Array.prototype.sort is stable, so games without a round or board keep upload order
+    selected = [...selected].sort((a, b) =>
+      compareNumbering(a.metadata.round, b.metadata.round) ||
+      compareNumbering(a.metadata.board, b.metadata.board)
+    )
   }
 
-  // Add confidence comment if requested
-  if (includeComments && parsedGame.confidence > 0) {
-    pgnParts.push(`{Confidence: ${Math.round(parsedGame.confidence)}%}`)
+  // Each game ends with a newline; a blank line separates it from the next
+  return selected.map(game => convertToPGN(game, pgnOptions)).join('\n')
+}
+
+export interface PGNValidationError {
+  message: string
+  line: number
+  column: number
+  // Game in the file (from 1), and the half-move the error is about, if any
+  game: number
+  ply?: number
+}
+
+export interface PGNValidationResult {
+  valid: boolean
+  errors: PGNValidationError[]
+  games: number
+}
+
+type PGNTokenType = 'tag' | 'comment' | 'nag' | 'variation-start' | 'variation-end' | 'number' | 'result' | 'move' | 'invalid'
+
+interface PGNToken {
+  type: PGNTokenType
+  text: string
+  line: number
+  column: number
+}
+
+// Tried in order at each position; whitespace and line comments are skipped
+const PGN_TOKEN_PATTERNS: Array<[PGNTokenType | null, RegExp]> = [
+  [null, /\s+|;[^\n]*/y],
+  ['tag', /\[(?:[^\]"\n]|"(?:[^"\\\n]|\\.)*"?)*\]?/y],
+  ['comment', /\{[^}]*\}?/y],
+  ['nag', /\$\d+/y],
+  ['variation-start', /\(/y],
+  ['variation-end', /\)/y],
+  ['result', /(?:1-0|0-1|1\/2-1\/2|\*)(?=[\s()[\]{};]|$)/y],
+  ['number', /\d+\.*/y],
+  ['move', /[^\s{}()[\];$]+/y],
+  ['invalid', /[\s\S]/y],
+]
+
+const TAG_PAIR_PATTERN = /^\[([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\]$/
+
+/**
+ * Split PGN text into tokens with the line and column each starts at
+ */
+function tokenizePGN(pgn: string): PGNToken[] {
+  const tokens: PGNToken[] = []
+  let index = 0
+  let line = 1
+  let column = 1
+
+  while (index < pgn.length) {
+    for (const [type, pattern] of PGN_TOKEN_PATTERNS) {
+      pattern.lastIndex = index
+      const match = pattern.exec(pgn)
+      if (!match || match[0].length === 0) continue
+
+      const text = match[0]
+      if (type) tokens.push({ type, text, line, column })
+      for (const char of text) {
+        if (char === '\n') {
+          line++
+          column = 1
+        } else {
+          column++
+        }
+      }
+      index += text.length
+      break
+    }
   }
 
-  return pgnParts.join('\n')
+  return tokens
 }
 
 /**
- * Validate PGN format
+ * Validate PGN: tag pairs and movetext are tokenized and every move is replayed with
+ * chess.js. The Result tag must agree with the game termination marker, and both with
+ * the final position (a checkmate decides the game, a stalemate draws it).
+ * Variations are checked for balance but not replayed. Files with several games are
+ * checked game by game. Escaped quotes in tag values are standard and accepted, even
+ * though chess.js cannot load them.
  */
-export function validatePGN(pgn: string): { valid: boolean; errors: string[] } {
-  const errors: string[] = []
+export function validatePGN(pgn: string): PGNValidationResult {
+  const errors: PGNValidationError[] = []
 
-  // Check for basic PGN structure
   if (!pgn.trim()) {
-    errors.push('PGN is empty')
-    return { valid: false, errors }
+    errors.push({ message: 'PGN is empty', line: 1, column: 1, game: 1 })
+    return { valid: false, errors, games: 0 }
   }
 
-  // Check for metadata tags (optional but recommended)
-  const hasMetadata = pgn.includes('[') && pgn.includes(']')
-  
-  // Check for move text
-  const hasMoves = /^\d+\./.test(pgn) || pgn.includes('*')
+  type GameState = {
+    number: number
+    start: PGNToken
+    tags: Map<string, { value: string; token: PGNToken }>
+    board: Chess | null
+    ply: number
+    hasMoves: boolean
+    // Set once a move could not be played; later moves are not checked
+    failed: boolean
+    result: PGNToken | null
+    variationDepth: number
+  }
 
-  if (!hasMoves && !hasMetadata) {
-    errors.push('PGN must contain either metadata tags or move text')
+  let game: GameState | null = null
+  let games = 0
+  const fail = (state: GameState, token: PGNToken, message: string, ply?: number) => {
+    errors.push({ message, line: token.line, column: token.column, game: state.number, ply })
   }
 
-  return {
-    valid: errors.length === 0,
-    errors,
+  const finishGame = (state: GameState, end: { line: number; column: number }) => {
+    if (state.variationDepth > 0) {
+      errors.push({ message: 'Unclosed variation', line: end.line, column: end.column, game: state.number })
+    }
+    if (!state.result) {
+      errors.push({ message: 'Missing game termination marker (1-0, 0-1, 1/2-1/2 or *)', line: end.line, column: end.column, game: state.number })
+      return
+    }
+
+    const marker = state.result.text
+    const resultTag = state.tags.get('Result')
+    if (!resultTag) {
+      fail(state, state.start, 'Missing Result tag')
+    } else if (resultTag.value !== marker) {
+      fail(state, resultTag.token, `Result tag "${resultTag.value}" does not match the termination marker ${marker}`)
+    }
+
+    const board = state.board
+    if (!board || state.failed) return
+    if (board.isCheckmate()) {
+      const winner = board.turn() === 'w' ? '0-1' : '1-0'
+      if (marker !== winner) fail(state, state.result, `The game ends in checkmate, so the result is ${winner}`, state.ply)
+    } else if ((board.isStalemate() || board.isInsufficientMaterial()) && marker !== '1/2-1/2') {
+      const reason = board.isStalemate() ? 'stalemate' : 'insufficient material'
+      fail(state, state.result, `The game ends in ${reason}, so the result is 1/2-1/2`, state.ply)
+    }
   }
+
+  // The board starts from the FEN tag when there is one
+  const boardFor = (state: GameState): Chess | null => {
+    if (state.board) return state.board
+    const fen = state.tags.get('FEN')
+    try {
+      state.board = fen ? new Chess(fen.value) : new Chess()
+    } catch {
+      fail(state, fen!.token, `Invalid FEN "${fen!.value}"`)
+      state.failed = true
+    }
+    return state.board
+  }
+
+  const startGame = (token: PGNToken): GameState => {
+    games++
+    return {
+      number: games,
+      start: token,
+      tags: new Map(),
+      board: null,
+      ply: 0,
+      hasMoves: false,
+      failed: false,
+      result: null,
+      variationDepth: 0,
+    }
+  }
+
+  for (const token of tokenizePGN(pgn)) {
+    // A tag after movetext, or anything after a termination marker, starts the next game
+    if (!game || game.result || (token.type === 'tag' && game.hasMoves)) {
+      if (game) finishGame(game, token)
+      game = startGame(token)
+    }
+    const state: GameState = game
+
+    switch (token.type) {
+      case 'tag': {
+        const tag = token.text.match(TAG_PAIR_PATTERN)
+        if (!tag) {
+          fail(state, token, `Malformed tag pair ${token.text}`)
+        } else {
+          state.tags.set(tag[1], { value: tag[2].replace(/\\(["\\])/g, '$1'), token })
+        }
+        break
+      }
+      case 'comment':
+        if (!token.text.endsWith('}')) fail(state, token, 'Unclosed comment')
+        state.hasMoves = true
+        break
+      case 'nag':
+        state.hasMoves = true
+        break
+      case 'variation-start':
+        state.variationDepth++
+        state.hasMoves = true
+        break
+      case 'variation-end':
+        if (state.variationDepth === 0) fail(state, token, 'Closing parenthesis without a variation')
+        else state.variationDepth--
+        break
+      case 'number': {
+        state.hasMoves = true
+        const board = boardFor(state)
+        if (state.variationDepth > 0 || !board || state.failed) break
+        const number = parseInt(token.text, 10)
+        if (number !== board.moveNumber()) {
+          fail(state, token, `Move number ${number} where ${board.moveNumber()} was expected`, state.ply + 1)
+        }
+        break
+      }
+      case 'move': {
+        state.hasMoves = true
+        const board = boardFor(state)
+        if (state.variationDepth > 0 || !board || state.failed) break
+        const { move } = splitAnnotation(token.text)
+        try {
+          board.move(move)
+          state.ply++
+        } catch {
+          fail(state, token, `Illegal move ${token.text}`, state.ply + 1)
+          state.failed = true
+        }
+        break
+      }
+      case 'result':
+        if (state.variationDepth > 0) break
+        state.hasMoves = true
+        state.result = token
+        boardFor(state)
+        break
+      case 'invalid':
+        fail(state, token, `Unexpected character "${token.text}"`)
+        break
+    }
+  }
+
+  const lines = pgn.split('\n')
+  if (game) finishGame(game, { line: lines.length, column: lines[lines.length - 1].length + 1 })
+
+  return { valid: errors.length === 0, errors, games }
+}
+
+export type MetadataErrors = { [K in keyof GameMetadata]?: string }
+
+const TIME_CONTROL_PERIOD = '(\\d+\\/\\d+|\\d+(\\+\\d+)?|\\*\\d+)'
+const timeControlPattern = new RegExp(`^(\\?|-|${TIME_CONTROL_PERIOD}(:${TIME_CONTROL_PERIOD})*)$`)
+
+/**
+ * Validate game metadata against PGN tag value formats
+ * Empty fields are allowed (exported as "?" or left out)
+ */
+export function validateMetadata(metadata: GameMetadata): MetadataErrors {
+  const errors: MetadataErrors = {}
+
+  if (metadata.date) {
+    const dateMatch = metadata.date.match(/^(\d{4}|\?{4})\.(\d{2}|\?{2})\.(\d{2}|\?{2})$/)
+    const month = dateMatch ? parseInt(dateMatch[2], 10) : NaN
+    const day = dateMatch ? parseInt(dateMatch[3], 10) : NaN
+    if (!dateMatch || month < 1 || month > 12 || day < 1 || day > 31) {
+      errors.date = 'Use YYYY.MM.DD, with ?? for unknown parts'
+    }
+  }
+
+  if (metadata.result && !['1-0', '0-1', '1/2-1/2', '*'].includes(metadata.result)) {
+    errors.result = 'Result must be 1-0, 0-1, 1/2-1/2 or *'
+  }
+
+  if (metadata.round && !/^(\?|-|\d+(\.\d+)*)$/.test(metadata.round)) {
+    errors.round = 'Round must be a number such as 3 or 3.1'
+  }
+
+  if (metadata.board && !/^\d+$/.test(metadata.board)) {
+    errors.board = 'Board must be a number'
+  }
+
+  if (metadata.eco && !/^[A-E]\d{2}$/.test(metadata.eco)) {
+    errors.eco = 'ECO code must be a letter A-E and two digits, e.g. C42'
+  }
+
+  if (metadata.timeControl && !timeControlPattern.test(metadata.timeControl)) {
+    errors.timeControl = 'Use PGN time control, e.g. 5400+30 or 40/7200:1800'
+  }
+
+  if (metadata.whiteElo && !/^\d{1,4}$/.test(metadata.whiteElo)) {
+    errors.whiteElo = 'Rating must be a whole number'
+  }
+
+  if (metadata.blackElo && !/^\d{1,4}$/.test(metadata.blackElo)) {
+    errors.blackElo = 'Rating must be a whole number'
+  }
+
+  return errors
 }
 
 /**
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Chess } from 'chess.js'
+import { convertDescriptiveGame, descriptiveReadings, detectNotationSystem, matchDescriptiveMoves } from './descriptive'
+
+const OPERA_GAME = [
+  'e4', 'e5', 'Nf3', 'd6', 'd4', 'Bg4', 'dxe5', 'Bxf3', 'Qxf3', 'dxe5', 'Bc4', 'Nf6',
+  'Qb3', 'Qe7', 'Nc3', 'c6', 'Bg5', 'b5', 'Nxb5', 'cxb5', 'Bxb5+', 'Nbd7', 'O-O-O', 'Rd8',
+  'Rxd7', 'Rxd7', 'Rd1', 'Qe6', 'Bxd7+', 'Nxd7', 'Qb8+', 'Nxb8', 'Rd8#',
+]
+const OPERA_DESCRIPTIVE =
+  '1. P-K4 P-K4 2. N-KB3 P-Q3 3. P-Q4 B-N5 4. PxP BxN 5. QxB PxP 6. B-QB4 N-KB3 7. Q-QN3 Q-K2 ' +
+  '8. N-B3 P-B3 9. B-KN5 P-N4 10. NxP PxN 11. BxPch QN-Q2 12. O-O-O R-Q1 13. RxN RxR ' +
+  '14. R-Q1 Q-K3 15. BxRch NxB 16. Q-N8ch NxQ 17. R-Q8 mate'
+
+function boardAfter(moves: string[]): Chess {
+  const board = new Chess()
+  moves.forEach(move => board.move(move))
+  return board
+}
+
+describe('descriptiveReadings', () => {
+  it('reads squares from the side of the player to move', () => {
+    assert.deepEqual(descriptiveReadings(new Chess(), 'P-K4'), ['e4'])
+    assert.deepEqual(descriptiveReadings(boardAfter(['e4']), 'P-K4'), ['e5'])
+    assert.deepEqual(descriptiveReadings(boardAfter(['e4', 'e5']), 'N-KB3'), ['Nf3'])
+  })
+
+  it('lists every capture a token fits', () => {
+    const board = boardAfter(['c4', 'd5', 'e4', 'e6'])
+    assert.deepEqual(descriptiveReadings(board, 'PxP').sort(), ['cxd5', 'exd5'])
+    assert.deepEqual(descriptiveReadings(board, 'KPxP'), ['exd5'])
+  })
+})
+
+describe('convertDescriptiveGame', () => {
+  it('converts a whole game to SAN', () => {
+    const moves = matchDescriptiveMoves(OPERA_DESCRIPTIVE)
+
+    assert.deepEqual(moves && convertDescriptiveGame(moves), OPERA_GAME)
+  })
+
+  it('settles an ambiguous capture by the moves after it', () => {
+    // 3. PxP could be cxd5 or exd5, but only cxd5 opens c4 for 4. B-N5ch
+    const moves = convertDescriptiveGame(['P-QB4', 'P-Q4', 'P-K4', 'P-K3', 'PxP', 'PxP', 'B-N5ch'])
+
+    assert.deepEqual(moves, ['c4', 'd5', 'e4', 'e6', 'cxd5', 'exd5', 'Bb5+'])
+  })
+
+  it('keeps the text of a move no reading fits', () => {
+    // The queen cannot reach KR5 past its own king's pawn
+    const moves = convertDescriptiveGame(['Q-KR5', 'P-K4'])
+
+    assert.deepEqual(moves, ['Q-KR5', 'e5'])
+  })
+})
+
+describe('detectNotationSystem', () => {
+  it('tells descriptive from algebraic move text', () => {
+    assert.equal(detectNotationSystem([OPERA_DESCRIPTIVE]), 'descriptive')
+    assert.equal(detectNotationSystem(['1. e4 e5 2. Nf3 d6 3. d4 Bg4']), 'algebraic')
+  })
+})
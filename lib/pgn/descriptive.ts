@@ -0,0 +1,181 @@
+/**
+ * English descriptive notation ("P-K4", "N-KB3", "PxP", "QxQch")
+ *
+ * A descriptive move names the piece and its target square from the mover's side of
+ * the board, or the piece it takes, so it only becomes a square-to-square move in a
+ * position: each token is matched against the legal moves on a chess.js board.
+ * Tokens that fit several moves ("PxP" with two captures) are settled by the moves
+ * after them through the game reconstruction.
+ *
+ * Shared by the browser and the S3 trigger Lambda (see scripts/build-lambda-shared.js).
+ */
+
+import type { Chess, Move } from 'chess.js'
+import { normalizeCastling } from './san'
+import { rewriteAsSan } from './reconstruction'
+
+export type NotationSystem = 'algebraic' | 'descriptive'
+
+// File names, from White's queen's rook to king's rook
+const FILES: { [name: string]: string } = {
+  QR: 'a', QN: 'b', QKt: 'b', QB: 'c', Q: 'd', K: 'e', KB: 'f', KN: 'g', KKt: 'g', KR: 'h',
+  // Without a wing, rook, knight and bishop files are each two files
+  R: 'ah', N: 'bg', Kt: 'bg', B: 'cf',
+}
+// Wing of a piece named by its side ("KR" is the king's rook)
+const WINGS: { [name: string]: string } = { K: 'efgh', Q: 'abcd' }
+
+const FILE = '(?:[KQ](?:Kt|[RBN])?|Kt|[RBN])'
+const PIECE = `(?:${FILE})?(?:Kt|[KQRBNP])`
+const SQUARE = `${FILE}[1-8]`
+const CASTLES = '(?:[0oO]-[0oO](?:-[0oO])?|Castles(?:\\s(?:KR?|QR?)(?![A-Za-z]))?)'
+const CORE =
+  `${PIECE}(?:\\((?:${SQUARE}|${FILE}|[1-8])\\)|\\/(?:${SQUARE}|[1-8]))?` +
+  `(?:-${SQUARE}|[x:×]${PIECE}(?:\\/?[1-8]|\\(${SQUARE}\\))?)` +
+  '(?:[=/]?\\(?(?:Kt|[QRBN])\\)?)?'
+const SUFFIX = '(?:\\s?(?:ch|dis\\.?\\s?ch|dbl\\.?\\s?ch|mate|\\+\\+?|#))?(?:\\s?e\\.\\s?p\\.?)?(?:!!|\\?\\?|!\\?|\\?!|!|\\?)?'
+
+const DESCRIPTIVE_PATTERN = new RegExp(
+  '^(?:(?<castles>' + CASTLES + ')|' +
+    `(?<piece>${PIECE})(?:\\((?<qualifier>${SQUARE}|${FILE}|[1-8])\\)|\\/(?<slashQualifier>${SQUARE}|[1-8]))?` +
+    `(?:-(?<square>${SQUARE})|[x:×](?<captured>${PIECE})(?:\\/?(?<capturedRank>[1-8])|\\((?<capturedSquare>${SQUARE})\\))?)` +
+    '(?:[=/]?\\(?(?<promotion>Kt|[QRBN])\\)?)?' +
+  ')' +
+  '(?:\\s?(?:ch|dis\\.?\\s?ch|dbl\\.?\\s?ch|mate|\\+\\+?|#))?(?:\\s?e\\.\\s?p\\.?)?' +
+  '(?<annotation>!!|\\?\\?|!\\?|\\?!|!|\\?)?$'
+)
+// Descriptive tokens in running text; move numbers and results are skipped
+const DESCRIPTIVE_SCAN_SOURCE = `(^|[^A-Za-z0-9-])((?:${CASTLES}|${CORE})${SUFFIX})(?![A-Za-z0-9])`
+
+// Shapes only one of the two systems writes, for telling them apart
+const DESCRIPTIVE_SHAPE = new RegExp(`(?:^|[^A-Za-z])${PIECE}(?:-${SQUARE}|[x:×]${PIECE}(?![a-h]))`, 'g')
+const ALGEBRAIC_SHAPE = /(?:^|[^A-Za-z])[NBRQK]?[a-h]?[1-8]?[x:]?[a-h][1-8]/g
+
+const pieceType = (name: string) => (name === 'Kt' ? 'n' : name.toLowerCase())
+
+// Split "QBP" into its file or wing ("QB") and piece ("P")
+function splitPiece(spec: string): { side?: string; type: string } {
+  const match = spec.match(new RegExp(`^(${FILE})?(Kt|[KQRBNP])$`))
+  return match ? { side: match[1], type: pieceType(match[2]) } : { type: pieceType(spec) }
+}
+
+// Rank as seen from White's side, for a rank counted from the mover's side
+const absoluteRank = (rank: string, color: 'w' | 'b') => String(color === 'w' ? Number(rank) : 9 - Number(rank))
+
+function squaresOf(spec: string, color: 'w' | 'b'): string[] {
+  const files = FILES[spec.slice(0, -1)] || ''
+  const rank = absoluteRank(spec.slice(-1), color)
+  return files.split('').map(file => `${file}${rank}`)
+}
+
+// Keep the moves that pass a loose hint (such as the wing of "KR"), unless none do
+const narrow = (moves: Move[], keep: (move: Move) => boolean) => {
+  const kept = moves.filter(keep)
+  return kept.length > 0 ? kept : moves
+}
+
+/**
+ * Legal moves (SAN) a descriptive token stands for in the board's position
+ * Returns an empty list for tokens that are not descriptive or fit no legal move.
+ */
+export function descriptiveReadings(board: Chess, text: string): string[] {
+  const match = text.trim().match(DESCRIPTIVE_PATTERN)
+  if (!match?.groups) return []
+
+  const groups = match.groups
+  const color = board.turn()
+  const legal = board.moves({ verbose: true })
+
+  if (groups.castles) {
+    const castling = normalizeCastling(groups.castles) ||
+      (/^Castles\s?Q/.test(groups.castles) ? 'O-O-O' : 'O-O')
+    return legal.filter(move => move.san.replace(/[+#]$/, '') === castling).map(move => move.san)
+  }
+
+  const piece = splitPiece(groups.piece)
+  let moves = legal.filter(move => move.piece === piece.type)
+
+  if (groups.square) {
+    const squares = squaresOf(groups.square, color)
+    moves = moves.filter(move => !move.captured && squares.includes(move.to))
+  } else {
+    const captured = splitPiece(groups.captured)
+    moves = moves.filter(move => move.captured === captured.type)
+    if (captured.side && captured.type === 'p') {
+      const files = FILES[captured.side] || ''
+      moves = moves.filter(move => files.includes(move.to[0]))
+    } else if (captured.side) {
+      moves = narrow(moves, move => (WINGS[captured.side!] || FILES[captured.side!] || '').includes(move.to[0]))
+    }
+    if (groups.capturedRank) {
+      moves = moves.filter(move => move.to[1] === absoluteRank(groups.capturedRank, color))
+    }
+    if (groups.capturedSquare) {
+      const squares = squaresOf(groups.capturedSquare, color)
+      moves = moves.filter(move => squares.includes(move.to))
+    }
+  }
+
+  // "KBP" is the pawn on the king's bishop file; "KR" is the rook that started on the king's side
+  if (piece.side) {
+    const files = piece.type === 'p' ? FILES[piece.side] : WINGS[piece.side] || FILES[piece.side]
+    moves = narrow(moves, move => (files || '').includes(move.from[0]))
+  }
+
+  const qualifier = groups.qualifier || groups.slashQualifier
+  if (qualifier && /^[1-8]$/.test(qualifier)) {
+    moves = moves.filter(move => move.from[1] === absoluteRank(qualifier, color))
+  } else if (qualifier && /[1-8]$/.test(qualifier)) {
+    const squares = squaresOf(qualifier, color)
+    moves = moves.filter(move => squares.includes(move.from))
+  } else if (qualifier) {
+    moves = moves.filter(move => (FILES[qualifier] || '').includes(move.from[0]))
+  }
+
+  if (groups.promotion) {
+    moves = moves.filter(move => move.promotion === pieceType(groups.promotion))
+  } else {
+    // A pawn reaching the last rank without a named piece is taken to become a queen
+    moves = narrow(moves, move => !move.promotion || move.promotion === 'q')
+  }
+
+  return moves.map(move => move.san)
+}
+
+/**
+ * Convert a game written in descriptive notation to SAN
+ * Moves that fit exactly one legal move, given the moves around them, come back in SAN;
+ * the rest keep their text so validation flags them with the moves they could mean.
+ * Tokens already in SAN are kept as they are.
+ */
+export function convertDescriptiveGame(moves: string[], startFen?: string): string[] {
+  return rewriteAsSan(moves, descriptiveReadings, startFen)
+}
+
+/**
+ * Find descriptive moves in text ("1. P-K4 P-K4 2. N-KB3"), or null if there are none
+ */
+export function matchDescriptiveMoves(text: string): string[] | null {
+  const pattern = new RegExp(DESCRIPTIVE_SCAN_SOURCE, 'g')
+  const moves: string[] = []
+
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    moves.push(match[2].replace(/\s+/g, ' ').trim())
+  }
+
+  return moves.length > 0 ? moves : null
+}
+
+/**
+ * Tell descriptive from algebraic notation by which move shapes are more common
+ */
+export function detectNotationSystem(texts: string[]): NotationSystem {
+  let descriptive = 0
+  let algebraic = 0
+  texts.forEach(text => {
+    descriptive += (text.match(DESCRIPTIVE_SHAPE) || []).length
+    algebraic += (text.match(ALGEBRAIC_SHAPE) || []).length
+  })
+  return descriptive > algebraic ? 'descriptive' : 'algebraic'
+}
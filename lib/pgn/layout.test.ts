@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { OcrBox, OcrCell, OcrLine, OcrPage, OcrTextBlock } from '../ocr/document'
+import { analyzeLineLayout, analyzeTableLayout, describeLayout } from './layout'
+
+function cell(row: number, column: number, text: string, box?: OcrBox): OcrCell {
+  return { text, confidence: 99, box, words: [], row, column, rowSpan: 1, columnSpan: 1 }
+}
+
+function line(text: string, left: number, top: number): OcrLine {
+  return { text, confidence: 99, box: { left, top, width: 0.3, height: 0.02 }, words: [] }
+}
+
+// A table from its rows of cell texts; columns are 1-based and empty texts are left out
+function tablePage(rows: string[][]): OcrPage {
+  const cells = rows.flatMap((texts, row) =>
+    texts.map((text, column) => cell(row + 1, column + 1, text)).filter(item => item.text))
+  return { words: [], lines: [], tables: [{ cells }] }
+}
+
+const rowTexts = (rows: OcrTextBlock[][]) => rows.map(row => row.map(item => item.text).join(' '))
+
+describe('analyzeTableLayout', () => {
+  it('reads side-by-side blocks one after the other', () => {
+    const page = tablePage([
+      ['1', 'e4', 'e5', '31', 'Qb8+', 'Nxb8'],
+      ['2', 'Nf3', 'd6', '32', 'Rd8#', ''],
+    ])
+    const { layout, rows } = analyzeTableLayout(page, null)
+
+    assert.deepEqual(layout, { source: 'table', blocks: 2, moveNumberColumns: true, firstMoves: [1, 31] })
+    assert.deepEqual(rowTexts(rows), ['1 e4 e5', '2 Nf3 d6', '31 Qb8+ Nxb8', '32 Rd8#'])
+  })
+
+  it('orders blocks by their move numbers', () => {
+    const page = tablePage([
+      ['21', 'Bxd7+', 'Nxd7', '1', 'e4', 'e5'],
+      ['22', 'Qb8+', 'Nxb8', '2', 'Nf3', 'd6'],
+    ])
+    const { layout, rows } = analyzeTableLayout(page, null)
+
+    assert.deepEqual(layout.firstMoves, [1, 21])
+    assert.equal(rowTexts(rows)[0], '1 e4 e5')
+  })
+
+  it('splits unnumbered columns at a wide gap', () => {
+    const at = (left: number, top: number): OcrBox => ({ left, top, width: 0.1, height: 0.02 })
+    const page: OcrPage = {
+      words: [],
+      lines: [],
+      tables: [{
+        cells: [
+          cell(1, 1, 'e4', at(0.05, 0.2)), cell(1, 2, 'e5', at(0.16, 0.2)),
+          cell(1, 3, 'Qb8+', at(0.55, 0.2)), cell(1, 4, 'Nxb8', at(0.66, 0.2)),
+          cell(2, 1, 'Nf3', at(0.05, 0.23)), cell(2, 2, 'd6', at(0.16, 0.23)),
+          cell(2, 3, 'Rd8#', at(0.55, 0.23)),
+        ],
+      }],
+    }
+    const { layout, rows } = analyzeTableLayout(page, null)
+
+    assert.equal(layout.blocks, 2)
+    assert.equal(layout.moveNumberColumns, false)
+    assert.deepEqual(rowTexts(rows), ['e4 e5', 'Nf3 d6', 'Qb8+ Nxb8', 'Rd8#'])
+  })
+
+  it('takes a column holding both moves of a row as a block of its own', () => {
+    const page = tablePage([
+      ['e4 e5', 'Qb8+ Nxb8'],
+      ['Nf3 d6', 'Rd8#'],
+    ])
+    const { layout, rows } = analyzeTableLayout(page, null)
+
+    assert.equal(layout.blocks, 2)
+    assert.deepEqual(rowTexts(rows), ['e4 e5', 'Nf3 d6', 'Qb8+ Nxb8', 'Rd8#'])
+  })
+})
+
+describe('analyzeLineLayout', () => {
+  it('groups lines into blocks by where they start and into rows by height', () => {
+    const page: OcrPage = {
+      words: [],
+      tables: [],
+      lines: [
+        line('31. Qb8+ Nxb8', 0.55, 0.2),
+        line('1. e4 e5', 0.05, 0.2),
+        line('2. Nf3 d6', 0.05, 0.23),
+        line('32. Rd8#', 0.55, 0.23),
+      ],
+    }
+    const { layout, rows } = analyzeLineLayout(page)
+
+    assert.deepEqual(layout, { source: 'lines', blocks: 2, moveNumberColumns: false, firstMoves: [1, 31] })
+    assert.deepEqual(rowTexts(rows), ['1. e4 e5', '2. Nf3 d6', '31. Qb8+ Nxb8', '32. Rd8#'])
+  })
+})
+
+describe('describeLayout', () => {
+  it('names the blocks and where they start', () => {
+    assert.equal(describeLayout({ source: 'table', blocks: 2, moveNumberColumns: true, firstMoves: [1, 31] }), '2 column blocks (1, 31)')
+    assert.equal(describeLayout({ source: 'lines', blocks: 1, moveNumberColumns: false, firstMoves: [null] }), '1 column block')
+  })
+})
@@ -0,0 +1,277 @@
+/**
+ * Layout of the move list on a score sheet
+ *
+ * Printed sheets often put moves 1-30 and 31-60 side by side, or three blocks of 20,
+ * so reading cells row by row across the page interleaves the halves (1, 31, 2, 32...).
+ * The analysis splits the table into column blocks at the move-number columns (or at
+ * wide gaps, or into white/black pairs), and orders the blocks by their first move
+ * number, or by position when they are not numbered. Half-moves are then read block
+ * by block, row by row.
+ *
+ * Shared by the browser and the S3 trigger Lambda (see scripts/build-lambda-shared.js).
+ */
+
+import type { OcrCell, OcrLine, OcrPage, OcrTextBlock } from '../ocr/document'
+import { matchTemplate, type ScoreSheetTemplate } from './templates'
+
+export interface SheetLayout {
+  // Read from table cells, or from text lines when OCR found no table
+  source: 'table' | 'lines'
+  // Column blocks of moves, in reading order
+  blocks: number
+  // Whether the table has columns of printed move numbers (always false for lines)
+  moveNumberColumns: boolean
+  // First move number of each block, where one is printed
+  firstMoves: Array<number | null>
+}
+
+export interface LayoutAnalysis<T extends OcrTextBlock = OcrTextBlock> {
+  layout: SheetLayout
+  // Rows of blocks in reading order: all rows of the first block, then the next block.
+  // A row holds the cells (or lines) of one block on one printed row, left to right.
+  rows: T[][]
+}
+
+// A printed move number, alone in its cell or at the start of a line
+const MOVE_NUMBER_CELL = /^\d{1,3}\.?$/
+const MOVE_NUMBER_PREFIX = /^\s*(\d{1,3})\s*\./
+// Share of a column's cells with digits that must be bare numbers for a move-number column
+const MOVE_NUMBER_SHARE = 0.6
+
+type Block<T extends OcrTextBlock> = {
+  rows: T[][]
+  firstMove: number | null
+  box: { left: number; top: number; right: number }
+}
+
+function boundsOf(items: OcrTextBlock[], fallbackLeft: number): Block<OcrTextBlock>['box'] {
+  const boxes = items.map(item => item.box).filter((box): box is NonNullable<typeof box> => !!box)
+  if (boxes.length === 0) return { left: fallbackLeft, top: 0, right: fallbackLeft }
+  return {
+    left: Math.min(...boxes.map(box => box.left)),
+    top: Math.min(...boxes.map(box => box.top)),
+    right: Math.max(...boxes.map(box => box.left + box.width)),
+  }
+}
+
+/**
+ * Put blocks in reading order: side by side left to right, stacked top to bottom.
+ * When every block that prints move numbers can be ordered by them, those numbers win.
+ */
+function orderBlocks<T extends OcrTextBlock>(blocks: Block<T>[]): Block<T>[] {
+  const byPosition = [...blocks].sort((a, b) => {
+    const overlap = a.box.left < b.box.right && b.box.left < a.box.right
+    return overlap ? a.box.top - b.box.top : a.box.left - b.box.left
+  })
+
+  const slots = byPosition
+    .map((block, index) => (block.firstMove !== null ? index : -1))
+    .filter(index => index !== -1)
+  const numbered = slots.map(index => byPosition[index]).sort((a, b) => a.firstMove! - b.firstMove!)
+  slots.forEach((slot, i) => {
+    byPosition[slot] = numbered[i]
+  })
+  return byPosition
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0
+}
+
+function isMoveNumberColumn(cells: OcrCell[]): boolean {
+  const withDigits = cells.filter(cell => /\d/.test(cell.text))
+  const numbers = withDigits.filter(cell => MOVE_NUMBER_CELL.test(cell.text.trim()))
+  return numbers.length >= 2 && numbers.length >= withDigits.length * MOVE_NUMBER_SHARE
+}
+
+// Tokens per filled cell that are not move numbers: about 2 when a cell holds "e4 e5"
+function tokensPerCell(cells: OcrCell[]): number {
+  const counts = cells
+    .map(cell => cell.text.trim().split(/\s+/).filter(token => token && !/^\d+\.*$/.test(token)).length)
+    .filter(count => count > 0)
+  return counts.length > 0 ? counts.reduce((sum, count) => sum + count, 0) / counts.length : 0
+}
+
+/**
+ * Split a table's columns into blocks of moves
+ * Each move-number column starts a block. Without them, a gap wider than half a
+ * column starts one; failing that, columns holding both moves of a row ("e4 e5")
+ * are blocks on their own and the others go in white/black pairs.
+ */
+function splitColumns(columns: number[], cellsOf: (column: number) => OcrCell[], numberColumns: Set<number>): number[][] {
+  const groups: number[][] = []
+
+  if (numberColumns.size > 0) {
+    columns.forEach(column => {
+      if (numberColumns.has(column) || groups.length === 0) groups.push([])
+      groups[groups.length - 1].push(column)
+    })
+    return groups
+  }
+
+  const bounds = columns.map(column => boundsOf(cellsOf(column), column))
+  const widths = bounds.map(box => box.right - box.left).filter(width => width > 0)
+  if (widths.length === columns.length) {
+    const minGap = median(widths) / 2
+    columns.forEach((column, i) => {
+      if (i === 0 || bounds[i].left - bounds[i - 1].right > minGap) groups.push([])
+      groups[groups.length - 1].push(column)
+    })
+    if (groups.length > 1) return groups
+    groups.length = 0
+  }
+
+  const perCell = median(columns.map(column => tokensPerCell(cellsOf(column))))
+  const size = perCell >= 1.5 ? 1 : 2
+  for (let i = 0; i < columns.length; i += size) groups.push(columns.slice(i, i + size))
+  return groups
+}
+
+function toLayout<T extends OcrTextBlock>(source: SheetLayout['source'], ordered: Block<T>[], moveNumberColumns: boolean): LayoutAnalysis<T> {
+  // On a numbered sheet, blocks without move numbers (a title, a notes column) are
+  // still read but are not part of the move list's layout
+  const numbered = ordered.some(block => block.firstMove !== null)
+  const counted = numbered ? ordered.filter(block => block.firstMove !== null) : ordered
+  return {
+    layout: {
+      source,
+      blocks: counted.length,
+      moveNumberColumns,
+      firstMoves: counted.map(block => block.firstMove),
+    },
+    rows: ordered.flatMap(block => block.rows),
+  }
+}
+
+/**
+ * Find the column blocks of a table-based sheet from its cells
+ * Only cells with text are placed. The grid of the sheet's template (see ./templates)
+ * decides the blocks when the table fits it; pass null to use the heuristics only.
+ */
+export function analyzeTableLayout(
+  page: OcrPage,
+  template: ScoreSheetTemplate | null = matchTemplate(page)?.template || null
+): LayoutAnalysis<OcrCell> {
+  const found: Block<OcrCell>[] = []
+  let hasNumberColumns = false
+
+  page.tables.forEach(({ cells: allCells }, tableIndex) => {
+    const tableCells = allCells.filter(cell => cell.text)
+    const columns = Array.from(new Set(tableCells.map(cell => cell.column))).sort((a, b) => a - b)
+    const cellsOf = (column: number) => tableCells.filter(cell => cell.column === column)
+    const rowIndices = Array.from(new Set(tableCells.map(cell => cell.row))).sort((a, b) => a - b)
+
+    // The template's grid, when the table has whole blocks of its columns (empty ones included)
+    const gridColumns = template?.grid.columns
+    const tableColumns = Array.from(new Set(allCells.map(cell => cell.column))).sort((a, b) => a - b)
+    const fitsGrid = !!gridColumns && tableColumns.length > 0 && tableColumns.length % gridColumns.length === 0
+
+    let groups: number[][]
+    let numberColumns: Set<number>
+    if (fitsGrid) {
+      numberColumns = new Set(tableColumns.filter((_, i) => gridColumns![i % gridColumns!.length] === 'number'))
+      groups = []
+      for (let i = 0; i < tableColumns.length; i += gridColumns!.length) {
+        groups.push(tableColumns.slice(i, i + gridColumns!.length).filter(column => columns.includes(column)))
+      }
+      groups = groups.filter(group => group.length > 0)
+    } else {
+      numberColumns = new Set(columns.filter(column => isMoveNumberColumn(cellsOf(column))))
+
+      // Columns without a digit or castling anywhere (labels, empty columns) do not decide
+      // the split; they are read with the block of the next column that does
+      const moveColumns = columns.filter(column => cellsOf(column).some(cell => /\d|O-O/.test(cell.text)))
+      groups = splitColumns(moveColumns, cellsOf, numberColumns)
+      columns
+        .filter(column => !moveColumns.includes(column))
+        .forEach(column => {
+          const group = groups.find(candidate => candidate[candidate.length - 1] > column) || groups[groups.length - 1]
+          if (group) group.push(column)
+        })
+      groups.forEach(group => group.sort((a, b) => a - b))
+    }
+    if (Array.from(numberColumns).some(column => isMoveNumberColumn(cellsOf(column)))) hasNumberColumns = true
+
+    groups.forEach((group, groupIndex) => {
+      const groupCells = tableCells.filter(cell => group.includes(cell.column))
+      const rows = rowIndices
+        .map(rowIndex => groupCells
+          .filter(cell => cell.row === rowIndex)
+          .sort((a, b) => a.column - b.column))
+        .filter(row => row.length > 0)
+
+      // The first number in the block's number column, or in front of its first move ("1. e4")
+      const numberColumn = group.find(column => numberColumns.has(column))
+      const firstNumber = numberColumn === undefined
+        ? rows.flat().map(cell => cell.text.match(MOVE_NUMBER_PREFIX)).find(Boolean)?.[1]
+        : cellsOf(numberColumn)
+          .sort((a, b) => a.row - b.row)
+          .find(cell => MOVE_NUMBER_CELL.test(cell.text.trim()))?.text
+
+      // Without geometry, tables are taken in order and columns left to right
+      const box = boundsOf(groupCells, tableIndex * 1000 + group[0])
+      // A table holding the template's whole grid has its blocks' first moves known
+      const gridFirstMove = fitsGrid && groups.length === template!.grid.blocks
+        ? groupIndex * template!.grid.movesPerBlock + 1
+        : null
+      found.push({ rows, firstMove: firstNumber ? parseInt(firstNumber, 10) : gridFirstMove, box })
+    })
+  })
+
+  return toLayout('table', orderBlocks(found), hasNumberColumns)
+}
+
+/**
+ * Find the column blocks of a sheet read as text lines (no table)
+ * Lines are grouped into blocks by where they start across the page, and into rows
+ * when their vertical centres are within half a line height of each other.
+ */
+export function analyzeLineLayout(page: OcrPage): LayoutAnalysis<OcrLine> {
+  const lines = page.lines.filter(line => line.text && line.box)
+  if (lines.length === 0) return toLayout('lines', [], false)
+
+  // A new block starts where line starts jump by more than half a typical line width
+  const byLeft = [...lines].sort((a, b) => a.box!.left - b.box!.left)
+  const minGap = median(lines.map(line => line.box!.width)) / 2
+  const clusters: OcrLine[][] = []
+  byLeft.forEach((line, i) => {
+    if (i === 0 || line.box!.left - byLeft[i - 1].box!.left > minGap) clusters.push([])
+    clusters[clusters.length - 1].push(line)
+  })
+
+  const center = (line: OcrLine) => line.box!.top + line.box!.height / 2
+  const found: Block<OcrLine>[] = clusters.map(cluster => {
+    const rows: OcrLine[][] = []
+    cluster
+      .sort((a, b) => a.box!.top - b.box!.top)
+      .forEach(line => {
+        const row = rows[rows.length - 1]
+        const anchor = row?.[0]
+        if (anchor && Math.abs(center(line) - center(anchor)) < Math.max(anchor.box!.height, line.box!.height) / 2) {
+          row.push(line)
+        } else {
+          rows.push([line])
+        }
+      })
+    rows.forEach(row => row.sort((a, b) => a.box!.left - b.box!.left))
+
+    const numberedLine = rows.flat().find(line => MOVE_NUMBER_PREFIX.test(line.text))
+    return {
+      rows,
+      firstMove: numberedLine ? parseInt(numberedLine.text.match(MOVE_NUMBER_PREFIX)![1], 10) : null,
+      box: boundsOf(cluster, 0),
+    }
+  })
+
+  return toLayout('lines', orderBlocks(found), false)
+}
+
+/**
+ * Short description of a layout for the review screen, e.g. "2 column blocks (1, 31)"
+ */
+export function describeLayout(layout: SheetLayout): string {
+  const blocks = layout.blocks === 1 ? '1 column block' : `${layout.blocks} column blocks`
+  const firstMoves = layout.firstMoves.filter((move): move is number => move !== null)
+  return firstMoves.length > 1 ? `${blocks} (${firstMoves.join(', ')})` : blocks
+}
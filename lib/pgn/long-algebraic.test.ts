@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Chess } from 'chess.js'
+import { convertLongAlgebraicGame, isLongAlgebraic, longAlgebraicReadings } from './long-algebraic'
+
+const OPERA_GAME = [
+  'e4', 'e5', 'Nf3', 'd6', 'd4', 'Bg4', 'dxe5', 'Bxf3', 'Qxf3', 'dxe5', 'Bc4', 'Nf6',
+  'Qb3', 'Qe7', 'Nc3', 'c6', 'Bg5', 'b5', 'Nxb5', 'cxb5', 'Bxb5+', 'Nbd7', 'O-O-O', 'Rd8',
+  'Rxd7', 'Rxd7', 'Rd1', 'Qe6', 'Bxd7+', 'Nxd7', 'Qb8+', 'Nxb8', 'Rd8#',
+]
+
+describe('isLongAlgebraic', () => {
+  it('accepts moves that name both squares', () => {
+    assert.equal(isLongAlgebraic('e2-e4'), true)
+    assert.equal(isLongAlgebraic('Ng1-f3+'), true)
+    assert.equal(isLongAlgebraic('e7e8q'), true)
+    assert.equal(isLongAlgebraic('e4'), false)
+    assert.equal(isLongAlgebraic('Nf3'), false)
+  })
+})
+
+describe('longAlgebraicReadings', () => {
+  it('promotes to a queen unless another piece is named', () => {
+    const board = new Chess('8/P7/8/8/8/8/8/k6K w - - 0 1')
+
+    assert.deepEqual(longAlgebraicReadings(board, 'a7a8'), ['a8=Q+'])
+    assert.deepEqual(longAlgebraicReadings(board, 'a7-a8N'), ['a8=N'])
+  })
+
+  it('reads a capture written with a dash', () => {
+    const board = new Chess()
+    ;['e4', 'd5'].forEach(move => board.move(move))
+
+    assert.deepEqual(longAlgebraicReadings(board, 'e4-d5'), ['exd5'])
+  })
+})
+
+describe('convertLongAlgebraicGame', () => {
+  it('converts a game in long algebraic notation', () => {
+    const moves = [
+      'e2-e4', 'e7-e5', 'Ng1-f3', 'd7-d6', 'd2-d4', 'Bc8-g4', 'd4xe5', 'Bg4xf3', 'Qd1xf3', 'd6xe5',
+      'Bf1-c4', 'Ng8-f6', 'Qf3-b3', 'Qd8-e7', 'Nb1-c3', 'c7-c6', 'Bc1-g5', 'b7-b5', 'Nc3xb5', 'c6xb5',
+      'Bc4xb5+', 'Nb8-d7', 'O-O-O', 'Ra8-d8', 'Rd1xd7', 'Rd8xd7', 'Rh1-d1', 'Qe7-e6', 'Bb5xd7+', 'Nf6xd7',
+      'Qb3-b8+', 'Nd7xb8', 'Rd1-d8#',
+    ]
+
+    assert.deepEqual(convertLongAlgebraicGame(moves), OPERA_GAME)
+  })
+
+  it('converts coordinate notation, with castling as the king move', () => {
+    const moves = convertLongAlgebraicGame(['e2e4', 'e7e5', 'g1f3', 'b8c6', 'f1c4', 'g8f6', 'e1g1'])
+
+    assert.deepEqual(moves, ['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Nf6', 'O-O'])
+  })
+
+  it('keeps the text of a move that is not legal where it is played', () => {
+    const moves = convertLongAlgebraicGame(['e2-e4', 'e7-e5', 'e4-e5'])
+
+    assert.deepEqual(moves, ['e4', 'e5', 'e4-e5'])
+  })
+})
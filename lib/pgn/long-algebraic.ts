@@ -0,0 +1,54 @@
+/**
+ * Long algebraic and coordinate notation ("e2-e4", "Ng1-f3", "e4xd5", "e2e4", "e7e8q")
+ *
+ * These name the square a piece leaves as well as the one it goes to, so each token
+ * is matched against the legal moves on a chess.js board and rewritten as SAN.
+ * Castling written as the king's move ("e1g1") is read the same way.
+ *
+ * Shared by the browser and the S3 trigger Lambda (see scripts/build-lambda-shared.js).
+ */
+
+import type { Chess } from 'chess.js'
+import { rewriteAsSan } from './reconstruction'
+
+const LONG_ALGEBRAIC_PATTERN = new RegExp(
+  '^(?<piece>[NBRQK])?(?<from>[a-h][1-8])[-x:]?(?<to>[a-h][1-8])(?:=?(?<promotion>[NBRQnbrq]))?' +
+  '[+#]?(?:\\s?e\\.\\s?p\\.?)?[+#]?(?:!!|\\?\\?|!\\?|\\?!|!|\\?)?$'
+)
+
+/**
+ * Whether a token names both the square a piece leaves and the one it reaches
+ */
+export function isLongAlgebraic(text: string): boolean {
+  return LONG_ALGEBRAIC_PATTERN.test(text.trim())
+}
+
+/**
+ * Legal moves (SAN) a long algebraic or coordinate token stands for in the board's position
+ * Returns an empty list for other tokens and for moves that are not legal. A capture
+ * mark is not required to match, since sheets often write captures with "-".
+ */
+export function longAlgebraicReadings(board: Chess, text: string): string[] {
+  const match = text.trim().match(LONG_ALGEBRAIC_PATTERN)
+  if (!match?.groups) return []
+
+  const { piece, from, to, promotion } = match.groups
+  const moves = board.moves({ verbose: true }).filter(move =>
+    move.from === from &&
+    move.to === to &&
+    (!piece || move.piece === piece.toLowerCase()) &&
+    // A pawn reaching the last rank without a named piece is taken to become a queen
+    (!move.promotion || move.promotion === (promotion || 'q').toLowerCase())
+  )
+
+  return moves.map(move => move.san)
+}
+
+/**
+ * Convert a game with long algebraic or coordinate moves to SAN
+ * Moves that are legal where they are played come back in SAN; the rest keep their
+ * text for validation to flag. Tokens already in SAN are kept as they are.
+ */
+export function convertLongAlgebraicGame(moves: string[], startFen?: string): string[] {
+  return rewriteAsSan(moves, longAlgebraicReadings, startFen)
+}
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { detectNotationLanguage, toEnglishNotation } from './notation'
+
+describe('detectNotationLanguage', () => {
+  it('picks the language whose piece letters the moves use', () => {
+    assert.equal(detectNotationLanguage(['1. e4 e5 2. Sf3 Sc6 3. Lb5 a6 4. Lxc6 dxc6']), 'de')
+    assert.equal(detectNotationLanguage(['1. e4 e5 2. Cf3 Cc6 3. Fb5 a6 4. Fxc6 dxc6']), 'fr')
+    assert.equal(detectNotationLanguage(['1. e4 e5 2. Cf3 Cc6 3. Ab5 a6 4. Axc6 dxc6']), 'es')
+    assert.equal(detectNotationLanguage(['1. e4 e5 2. Pf3 Pc6 3. Lb5 a6 4. Lxc6 dxc6']), 'nl')
+  })
+
+  it('falls back to English without piece letters', () => {
+    assert.equal(detectNotationLanguage(['1. e4 e5 2. d4 exd4']), 'en')
+  })
+})
+
+describe('toEnglishNotation', () => {
+  it('rewrites piece letters in move position only', () => {
+    assert.equal(toEnglishNotation('12.Dxd8+ Txd8 13. Sf3', 'de'), '12.Qxd8+ Rxd8 13. Nf3')
+    assert.equal(toEnglishNotation('Rg1 Re7', 'fr'), 'Kg1 Ke7')
+    assert.equal(toEnglishNotation('Spieler: Schmidt', 'de'), 'Spieler: Schmidt')
+  })
+
+  it('rewrites promotion pieces', () => {
+    assert.equal(toEnglishNotation('e8=D bxa1T', 'de'), 'e8=Q bxa1R')
+  })
+
+  it('reads figurines in any language', () => {
+    assert.equal(toEnglishNotation('♘f3 ♞c6 ♗b5 ♙e4', 'en'), 'Nf3 Nc6 Bb5 e4')
+    assert.equal(toEnglishNotation('♕h5 Sf6', 'de'), 'Qh5 Nf6')
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Piece letters of score sheets kept in other languages, and figurine symbols
+ *
+ * Moves are rewritten with English letters before they are matched as SAN, so
+ * "Sf3" (German), "Cf3" (French, Spanish, Italian), "Pf3" (Dutch) and "♘f3" all
+ * become "Nf3". Only letters in move position are touched: at the start of a token
+ * in front of a square, or after a promotion square.
+ *
+ * Shared by the browser and the S3 trigger Lambda (see scripts/build-lambda-shared.js).
+ */
+
+export type NotationLanguage = 'en' | 'de' | 'fr' | 'es' | 'nl' | 'it'
+
+export interface NotationLanguageInfo {
+  name: string
+  // Letter written for each piece, keyed by the English letter
+  pieces: { K: string; Q: string; R: string; B: string; N: string }
+}
+
+// In detection order: ties go to the earlier language. Spanish and Italian share
+// their letters, so an Italian sheet is detected as Spanish and read the same way.
+export const NOTATION_LANGUAGES: { [language in NotationLanguage]: NotationLanguageInfo } = {
+  en: { name: 'English', pieces: { K: 'K', Q: 'Q', R: 'R', B: 'B', N: 'N' } },
+  de: { name: 'Deutsch', pieces: { K: 'K', Q: 'D', R: 'T', B: 'L', N: 'S' } },
+  fr: { name: 'Français', pieces: { K: 'R', Q: 'D', R: 'T', B: 'F', N: 'C' } },
+  es: { name: 'Español', pieces: { K: 'R', Q: 'D', R: 'T', B: 'A', N: 'C' } },
+  nl: { name: 'Nederlands', pieces: { K: 'K', Q: 'D', R: 'T', B: 'L', N: 'P' } },
+  it: { name: 'Italiano', pieces: { K: 'R', Q: 'D', R: 'T', B: 'A', N: 'C' } },
+}
+
+// White and black figurines; pawns are written without a letter
+const FIGURINES: { [glyph: string]: string } = {
+  '♔': 'K', '♚': 'K',
+  '♕': 'Q', '♛': 'Q',
+  '♖': 'R', '♜': 'R',
+  '♗': 'B', '♝': 'B',
+  '♘': 'N', '♞': 'N',
+  '♙': '', '♟': '',
+}
+const FIGURINE_PATTERN = /[♔-♟]/g
+
+// An upper-case letter starting a piece move ("Sf3", "12.Dxd8+", "Tae1")
+const PIECE_LETTER_PATTERN = /(^|[^A-Za-z])([A-Z])(?=[a-h]?[1-8]?[x:]?[a-h][1-8])/g
+// An upper-case letter naming the promotion piece ("e8=D", "bxa1T")
+const PROMOTION_LETTER_PATTERN = /([a-h][18]=?)([A-Z])(?![A-Za-z])/g
+
+/**
+ * Pick the language whose piece letters cover most of the piece moves in the texts
+ * Falls back to English when no piece letters are found.
+ */
+export function detectNotationLanguage(texts: string[]): NotationLanguage {
+  const counts: { [letter: string]: number } = {}
+  const count = (letter: string) => {
+    counts[letter] = (counts[letter] || 0) + 1
+  }
+
+  texts.forEach(text => {
+    const replaced = text.replace(FIGURINE_PATTERN, glyph => FIGURINES[glyph])
+    let match: RegExpExecArray | null
+    const pieces = new RegExp(PIECE_LETTER_PATTERN.source, 'g')
+    while ((match = pieces.exec(replaced)) !== null) count(match[2])
+    const promotions = new RegExp(PROMOTION_LETTER_PATTERN.source, 'g')
+    while ((match = promotions.exec(replaced)) !== null) count(match[2])
+  })
+
+  let best: NotationLanguage = 'en'
+  let bestScore = 0
+  for (const language of Object.keys(NOTATION_LANGUAGES) as NotationLanguage[]) {
+    const letters = new Set(Object.values(NOTATION_LANGUAGES[language].pieces))
+    const score = Array.from(letters).reduce((sum, letter) => sum + (counts[letter] || 0), 0)
+    if (score > bestScore) {
+      best = language
+      bestScore = score
+    }
+  }
+  return best
+}
+
+/**
+ * Rewrite the piece letters and figurines in a text with English letters
+ * Letters the language does not use are left as they are.
+ */
+export function toEnglishNotation(text: string, language: NotationLanguage): string {
+  const withLetters = text.replace(FIGURINE_PATTERN, glyph => FIGURINES[glyph])
+  if (language === 'en') return withLetters
+
+  const toEnglish: { [letter: string]: string } = {}
+  Object.entries(NOTATION_LANGUAGES[language].pieces).forEach(([english, letter]) => {
+    toEnglish[letter] = english
+  })
+
+  return withLetters
+    .replace(PIECE_LETTER_PATTERN, (match, before: string, letter: string) => `${before}${toEnglish[letter] || letter}`)
+    .replace(PROMOTION_LETTER_PATTERN, (match, square: string, letter: string) => `${square}${toEnglish[letter] || letter}`)
+}
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { convertDescriptiveGame, matchDescriptiveMoves } from './descriptive'
+import { convertLongAlgebraicGame } from './long-algebraic'
+import { checkPageContinuity, continuationPosition, firstMoveOfPage } from './pages'
+
+const OPERA_GAME = [
+  'e4', 'e5', 'Nf3', 'd6', 'd4', 'Bg4', 'dxe5', 'Bxf3', 'Qxf3', 'dxe5', 'Bc4', 'Nf6',
+  'Qb3', 'Qe7', 'Nc3', 'c6', 'Bg5', 'b5', 'Nxb5', 'cxb5', 'Bxb5+', 'Nbd7', 'O-O-O', 'Rd8',
+  'Rxd7', 'Rxd7', 'Rd1', 'Qe6', 'Bxd7+', 'Nxd7', 'Qb8+', 'Nxb8', 'Rd8#',
+]
+
+describe('firstMoveOfPage', () => {
+  it('takes the lowest number printed in the move blocks', () => {
+    assert.equal(firstMoveOfPage({ source: 'table', blocks: 2, moveNumberColumns: true, firstMoves: [61, 41] }), 41)
+    assert.equal(firstMoveOfPage({ source: 'lines', blocks: 1, moveNumberColumns: false, firstMoves: [null] }), null)
+    assert.equal(firstMoveOfPage(null), null)
+  })
+})
+
+describe('checkPageContinuity', () => {
+  it('accepts pages that follow on from each other', () => {
+    const pages = [{ halfMoves: 80, firstMove: 1 }, { halfMoves: 21, firstMove: 41 }, { halfMoves: 4, firstMove: null }]
+
+    assert.deepEqual(checkPageContinuity(pages), [])
+  })
+
+  it('reports missing moves and overlapping pages', () => {
+    assert.deepEqual(checkPageContinuity([{ halfMoves: 80, firstMove: 1 }, { halfMoves: 20, firstMove: 61 }]), [
+      { type: 'gap', page: 1, expected: 41, found: 61 },
+    ])
+    assert.deepEqual(checkPageContinuity([{ halfMoves: 80, firstMove: 1 }, { halfMoves: 20, firstMove: 31 }]), [
+      { type: 'overlap', page: 1, expected: 41, found: 31 },
+    ])
+  })
+
+  it("reports a page that ends after White's move without Black's reply on the next", () => {
+    assert.deepEqual(checkPageContinuity([{ halfMoves: 79, firstMove: 1 }, { halfMoves: 20, firstMove: 41 }]), [
+      { type: 'split-move', page: 1, expected: 40, found: 41 },
+    ])
+  })
+
+  it('does not check a later page numbered from 1', () => {
+    assert.deepEqual(checkPageContinuity([{ halfMoves: 80, firstMove: 1 }, { halfMoves: 20, firstMove: 1 }]), [])
+  })
+})
+
+describe('continuationPosition', () => {
+  it('plays the moves of the pages before', () => {
+    assert.equal(
+      continuationPosition(OPERA_GAME.slice(0, 16)),
+      'rn2kb1r/pp2qppp/2p2n2/4p3/2B1P3/1QN5/PPP2PPP/R1B1K2R w KQkq - 0 9'
+    )
+  })
+
+  it('leaves moves that are not legal off the board', () => {
+    assert.equal(continuationPosition(['e4', 'Nxq5', 'e5']), continuationPosition(['e4', 'e5']))
+  })
+})
+
+describe('continuation pages', () => {
+  it('convert descriptive moves from where the page before ends', () => {
+    const moves = matchDescriptiveMoves(
+      '9. B-KN5 P-N4 10. NxP PxN 11. BxPch QN-Q2 12. O-O-O R-Q1 13. RxN RxR ' +
+      '14. R-Q1 Q-K3 15. BxRch NxB 16. Q-N8ch NxQ 17. R-Q8 mate'
+    )
+
+    assert.deepEqual(moves && convertDescriptiveGame(moves, continuationPosition(OPERA_GAME.slice(0, 16))), OPERA_GAME.slice(16))
+  })
+
+  it('convert long algebraic moves from where the page before ends', () => {
+    const moves = ['d6xe5', 'Bf1-c4', 'Ng8-f6', 'Qf3-b3', 'Qd8-e7']
+
+    assert.deepEqual(convertLongAlgebraicGame(moves, continuationPosition(OPERA_GAME.slice(0, 9))), OPERA_GAME.slice(9, 14))
+    // From the starting position these moves are not legal and would be kept as text
+    assert.deepEqual(convertLongAlgebraicGame(moves), moves)
+  })
+})
@@ -0,0 +1,97 @@
+import { Chess } from 'chess.js'
+import type { SheetLayout } from './layout'
+
+/**
+ * Games written across several score sheets
+ *
+ * Each page is read on its own and the pages are joined in the order the user gave
+ * them. The join is checked against the move number each page starts at, so a
+ * missing page or pages in the wrong order show up before the moves are reviewed.
+ * Moves that are only read against the board (descriptive, long algebraic) are read
+ * from where the pages before end.
+ */
+
+export interface SheetPage {
+  // Half-moves read from the page
+  halfMoves: number
+  // Move number the page starts at, where one is printed or written
+  firstMove: number | null
+}
+
+export interface PageContinuityIssue {
+  // 'split-move': the page before ends after White's move, and this page starts after it
+  type: 'gap' | 'overlap' | 'split-move'
+  // Index of the page in upload order
+  page: number
+  // Move number the page should start at
+  expected: number
+  found: number
+}
+
+/**
+ * Move number a page starts at, from the numbers printed in its move blocks
+ */
+export function firstMoveOfPage(layout: SheetLayout | null | undefined): number | null {
+  const firstMoves = (layout?.firstMoves || []).filter((move): move is number => move !== null)
+  return firstMoves.length > 0 ? Math.min(...firstMoves) : null
+}
+
+/**
+ * Position the next page starts from, after the moves of the pages before it
+ * Moves that are not legal are left off the board, as when the pages are checked.
+ */
+export function continuationPosition(moves: string[]): string {
+  const board = new Chess()
+  moves.forEach(move => {
+    try {
+      board.move(move)
+    } catch {
+      // Flagged when the joined pages are checked
+    }
+  })
+  return board.fen()
+}
+
+/**
+ * Check that each page starts where the pages before it end
+ * A later page numbered from 1 is taken to be a fresh sheet that the players went on
+ * writing on without renumbering, so it is not checked; neither are unnumbered pages.
+ */
+export function checkPageContinuity(pages: SheetPage[]): PageContinuityIssue[] {
+  const issues: PageContinuityIssue[] = []
+  let halfMoves = 0
+
+  pages.forEach((page, index) => {
+    const found = page.firstMove
+    if (found !== null && (index === 0 || found !== 1)) {
+      const expected = Math.floor(halfMoves / 2) + 1
+      // After White's move the next page may repeat the move number for Black's reply
+      if (halfMoves % 2 === 1 && found === expected + 1) {
+        issues.push({ type: 'split-move', page: index, expected, found })
+      } else if (found > expected) {
+        issues.push({ type: 'gap', page: index, expected, found })
+      } else if (found < expected) {
+        issues.push({ type: 'overlap', page: index, expected, found })
+      }
+    }
+    halfMoves += page.halfMoves
+  })
+
+  return issues
+}
+
+export function describeContinuityIssue(issue: PageContinuityIssue): string {
+  const page = `Page ${issue.page + 1}`
+  switch (issue.type) {
+    case 'gap':
+      return issue.page === 0
+        ? `${page} starts at move ${issue.found}, not at the start of the game. Is a page missing or out of order?`
+        : `${page} starts at move ${issue.found}, but the pages before it end at move ${issue.expected - 1}. ` +
+          `Moves ${issue.expected}–${issue.found - 1} may be missing.`
+    case 'overlap':
+      return `${page} starts at move ${issue.found}, but the pages before it already reach move ${issue.expected - 1}. ` +
+        'Are the pages in order?'
+    case 'split-move':
+      return `${page} starts at move ${issue.found}, but Black's move ${issue.expected} is missing from the page before it.`
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { OcrCell, OcrPage } from '../ocr/document'
+import { parseScoreSheet } from './parser'
+
+function cell(row: number, column: number, text: string, confidence: number): OcrCell {
+  return { text, confidence, words: [], row, column, rowSpan: 1, columnSpan: 1 }
+}
+
+// A table from its rows of cell texts, rows and columns numbered from 1 as Textract does;
+// the first row is read with `firstRowConfidence`, the others with 90
+function tablePage(rows: string[][], firstRowConfidence = 90): OcrPage {
+  const cells = rows.flatMap((texts, row) =>
+    texts.map((text, column) => cell(row + 1, column + 1, text, row === 0 ? firstRowConfidence : 90)))
+  return { words: [], lines: [], tables: [{ cells }] }
+}
+
+describe('parseScoreSheet', () => {
+  it('reads the header row apart from the moves', () => {
+    const page = tablePage([
+      ['Move', 'Moves', '1858.11.02'],
+      ['1', 'e4', 'e5'],
+      ['2', 'Nf3', 'd6'],
+    ], 20)
+    const game = parseScoreSheet(page)
+
+    assert.deepEqual(game.moves, ['e4', 'e5', 'Nf3', 'd6'])
+    assert.equal(game.metadata.date, '1858.11.02')
+    // The header is not part of the move table's confidence
+    assert.equal(game.confidence, 90)
+  })
+
+  it('reads a table that starts with the moves from its first row', () => {
+    const page = tablePage([
+      ['1', 'e4', 'e5'],
+      ['2', 'Nf3', 'd6'],
+    ], 60)
+    const game = parseScoreSheet(page)
+
+    assert.deepEqual(game.moves, ['e4', 'e5', 'Nf3', 'd6'])
+    assert.equal(game.confidence, 75)
+  })
+})
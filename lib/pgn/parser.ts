@@ -1,96 +1,129 @@
 /**
- * Parse Textract response to extract chess notation
+ * Read chess games from the OCR page of a score sheet
+ *
+ * Works on the provider-neutral page model (see ../ocr/document); each OCR engine's
+ * adapter maps its output into it first.
+ *
+ * Shared by the browser and the S3 trigger Lambda (see scripts/build-lambda-shared.js).
  */
 
-export interface TextractBlock {
-  BlockType: string
-  Id?: string
-  Text?: string
-  Geometry?: {
-    BoundingBox: {
-      Width: number
-      Height: number
-      Left: number
-      Top: number
-    }
-  }
-  Confidence?: number
-  // Table-specific fields
-  RowIndex?: number
-  ColumnIndex?: number
-  RowSpan?: number
-  ColumnSpan?: number
-  Relationships?: Array<{
-    Type: string
-    Ids: string[]
-  }>
-}
+import type { OcrBox, OcrCell, OcrPage, OcrTextBlock, OcrWord } from '../ocr/document'
+import { matchNumberedMoves, matchStandaloneMoves, normalizeSan } from './san'
+import { detectNotationLanguage, toEnglishNotation, type NotationLanguage } from './notation'
+import {
+  convertDescriptiveGame,
+  detectNotationSystem,
+  matchDescriptiveMoves,
+  type NotationSystem,
+} from './descriptive'
+import { convertLongAlgebraicGame, isLongAlgebraic } from './long-algebraic'
+import { analyzeLineLayout, analyzeTableLayout, type SheetLayout } from './layout'
+import { findTemplate, isInRegion, matchTemplate, type ScoreSheetTemplate, type SheetRegion } from './templates'
 
-export interface TextractResponse {
-  Blocks: TextractBlock[]
-}
+const pageCells = (page: OcrPage): OcrCell[] => page.tables.flatMap(table => table.cells)
+
+// Column titles of a move table ("Move", "White", ...)
+const columnTitlePattern = /^(move|round|white|black|result|date|event|tournament|site|player)/i
 
 /**
- * Extract all text from Textract response, ordered by position
- * Supports both LINE blocks (legacy) and CELL blocks (table structure)
+ * Index of the tables' header row: their first row (rows are numbered from 1) when it
+ * holds a column title, or null when the table starts with the moves
  */
-export function extractTextFromTextract(response: TextractResponse): string {
-  // First, try to extract from table structure (CELL blocks) if available
-  const cellBlocks = response.Blocks.filter(
-    (block) => block.BlockType === 'CELL' && block.Text
-  )
+function tableHeaderRow(page: OcrPage): number | null {
+  const cells = pageCells(page).filter(cell => cell.text)
+  if (cells.length === 0) return null
+  const firstRow = Math.min(...cells.map(cell => cell.row))
+  return cells.some(cell => cell.row === firstRow && columnTitlePattern.test(cell.text.trim())) ? firstRow : null
+}
 
-  if (cellBlocks.length > 0) {
-    // Extract from table cells, sorted by row and column
-    cellBlocks.sort((a, b) => {
-      const rowDiff = (a.RowIndex || 0) - (b.RowIndex || 0)
-      if (rowDiff !== 0) return rowDiff
-      return (a.ColumnIndex || 0) - (b.ColumnIndex || 0)
-    })
+// Text of the move cells, or of the lines when there is no table
+function sheetTexts(page: OcrPage): string[] {
+  const cells = pageCells(page).filter(cell => cell.text)
+  return (cells.length > 0 ? cells : page.lines.filter(line => line.text)).map(block => block.text)
+}
 
-    return cellBlocks.map((block) => block.Text).join(' ')
-  }
+/**
+ * Piece-letter language of the sheet, detected from letter frequency
+ */
+export function detectSheetLanguage(page: OcrPage): NotationLanguage {
+  return detectNotationLanguage(sheetTexts(page))
+}
 
-  // Fallback to LINE blocks for legacy compatibility
-  const textBlocks = response.Blocks.filter(
-    (block) => block.BlockType === 'LINE' && block.Text
-  )
+/**
+ * Notation system of the sheet: algebraic (e4, Nf3) or descriptive (P-K4, N-KB3)
+ */
+export function detectSheetSystem(page: OcrPage): NotationSystem {
+  return detectNotationSystem(sheetTexts(page))
+}
 
-  // Sort by position (top to bottom, left to right)
-  textBlocks.sort((a, b) => {
-    if (!a.Geometry || !b.Geometry) return 0
-    const topDiff = a.Geometry.BoundingBox.Top - b.Geometry.BoundingBox.Top
-    if (Math.abs(topDiff) > 0.05) {
-      // Different rows
-      return topDiff
+/**
+ * Copy of the page with piece letters and figurines in English, ready for move extraction
+ * Lines and cells keep sharing their word objects, as on the page.
+ */
+export function toEnglishPage(page: OcrPage, language: NotationLanguage): OcrPage {
+  const words = new Map<OcrWord, OcrWord>()
+  const english = (word: OcrWord): OcrWord => {
+    let copy = words.get(word)
+    if (!copy) {
+      copy = { ...word, text: toEnglishNotation(word.text, language) }
+      words.set(word, copy)
     }
-    // Same row, sort by left position
-    return (
-      a.Geometry.BoundingBox.Left - b.Geometry.BoundingBox.Left
-    )
+    return copy
+  }
+  const englishBlock = <T extends OcrTextBlock>(block: T): T => ({
+    ...block,
+    text: toEnglishNotation(block.text, language),
+    words: block.words.map(english),
   })
 
-  return textBlocks.map((block) => block.Text).join(' ')
+  return {
+    words: page.words.map(english),
+    lines: page.lines.map(englishBlock),
+    tables: page.tables.map(table => ({ ...table, cells: table.cells.map(englishBlock) })),
+  }
+}
+
+/**
+ * Extract all text from the page, ordered by position
+ * Reads table cells when the page has them, otherwise its lines
+ */
+export function extractTextFromPage(
+  page: OcrPage,
+  template: ScoreSheetTemplate | null = matchTemplate(page)?.template || null
+): string {
+  // Cells and lines are read block by block on sheets with side-by-side move columns
+  // (see ./layout), top to bottom and left to right within a block
+  const hasCells = pageCells(page).some(cell => cell.text)
+  const { rows } = hasCells ? analyzeTableLayout(page, template) : analyzeLineLayout(page)
+
+  return rows.flat().map((block) => block.text).join(' ')
 }
 
 /**
  * Extract chess moves from table cells (optimized for table structure)
- * Extracts moves from CELL blocks, ignoring header/metadata rows (typically row 0)
+ * Reads the cells of the page's tables, ignoring header/metadata rows
+ * Descriptive moves are returned as written; see convertDescriptiveGame.
  */
-export function extractMovesFromTable(response: TextractResponse): string[] {
-  const cellBlocks = response.Blocks.filter(
-    (block) => block.BlockType === 'CELL' && block.Text && block.RowIndex !== undefined
-  )
-
-  if (cellBlocks.length === 0) {
+export function extractMovesFromTable(
+  page: OcrPage,
+  system: NotationSystem = 'algebraic',
+  template: ScoreSheetTemplate | null = matchTemplate(page)?.template || null
+): string[] {
+  const matchNumbered = system === 'descriptive' ? matchDescriptiveMoves : matchNumberedMoves
+  const matchStandalone = system === 'descriptive' ? matchDescriptiveMoves : matchStandaloneMoves
+
+  // Rows of each column block in reading order, so 1-30 is read before 31-60
+  const { rows } = analyzeTableLayout(page, template)
+
+  if (rows.length === 0) {
     return []
   }
 
-  // Filter out header row (row 0) and other metadata rows
-  // Typically, move data starts from row 1 or row 2
+  // Filter out the header row (see tableHeaderRow) and other metadata rows
   // We'll skip rows that contain common header text patterns
+  const headerRow = tableHeaderRow(page)
   const headerPatterns = [
-    /^(move|round|white|black|result|date|event|tournament|site|player)/i,
+    columnTitlePattern,
     /^\d+\s*$/,  // Just row numbers
     /^[-=\s]+$/   // Separators
   ]
@@ -99,64 +132,37 @@ export function extractMovesFromTable(response: TextractResponse): string[] {
     return headerPatterns.some(pattern => pattern.test(text.trim()))
   }
 
-  // Group cells by row
-  const rows: { [rowIndex: number]: TextractBlock[] } = {}
-  cellBlocks.forEach(cell => {
-    const rowIndex = cell.RowIndex || 0
-    if (!rows[rowIndex]) {
-      rows[rowIndex] = []
-    }
-    rows[rowIndex].push(cell)
-  })
-
   // Extract moves from non-header rows
   const moves: string[] = []
-  const sortedRowIndices = Object.keys(rows)
-    .map(Number)
-    .sort((a, b) => a - b)
-
-  for (const rowIndex of sortedRowIndices) {
-    const rowCells = rows[rowIndex]
-      .sort((a, b) => (a.ColumnIndex || 0) - (b.ColumnIndex || 0))
 
-    // Skip header rows (row 0 or rows where all cells match header patterns)
-    const rowText = rowCells.map(cell => cell.Text || '').join(' ').trim()
+  for (const rowCells of rows) {
+    // Skip header rows (the table's header row or rows where all cells match header patterns)
+    const rowText = rowCells.map(cell => cell.text).join(' ').trim()
     
-    if (rowIndex === 0 || rowCells.every(cell => isHeaderCell(cell.Text || ''))) {
+    if (rowCells[0].row === headerRow || rowCells.every(cell => isHeaderCell(cell.text))) {
       continue
     }
 
     // Extract move notation from cells in this row
-    // Try multiple patterns to catch different formats:
+    // Try multiple patterns to catch different formats (see ./san):
     // 1. With move numbers: "1. e4 e5", "1.e4 e5"
-    // 2. Without move numbers: "e4", "e5", "Nf3"
-    // 3. Castling: "O-O", "O-O-O", "0-0", "0-0-0"
-    
-    // Pattern 1: Moves with numbers (e.g., "1. e4 e5")
-    const movePatternWithNumber = /(\d+\.?\s*[a-h1-8NBRQKx=+#O-]+\s*[a-h1-8NBRQKx=+#O-]*)/gi
-    // Pattern 2: Standalone moves without numbers - more comprehensive pattern
-    // Matches: "e4", "Nf3", "O-O", "Qe2", "fxe6", "Rxf7", "dxc3", "Kh8", etc.
-    const movePatternStandalone = /\b([a-h][1-8](?:x[a-h][1-8])?[+#=]?|O-O(?:-O)?|0-0(?:-0)?|[NBRQK][a-h1-8]?x?[a-h][1-8](?:x[a-h][1-8])?[+#=]?|[a-h]x[a-h][1-8][+#=]?)\b/gi
+    // 2. Without move numbers: "e4", "e5", "Nf3", "e8=Q", "Nbd7", "O-O"
     
-    const rowMatches = rowText.match(movePatternWithNumber)
+    const rowMatches = matchNumbered(rowText)
     
     if (rowMatches) {
       // Extract moves from numbered format
-      rowMatches.forEach(match => {
-        const cleaned = match.replace(/^\d+\.?\s*/, '').trim()
-        const parts = cleaned.split(/\s+/).filter(p => p.length > 0)
-        moves.push(...parts)
-      })
+      moves.push(...rowMatches)
     } else {
       // Try standalone move pattern (no move numbers) on row text first
-      const standaloneMatches = rowText.match(movePatternStandalone)
-      if (standaloneMatches && standaloneMatches.length > 0) {
-        moves.push(...standaloneMatches.map(match => match.trim()))
+      const standaloneMatches = matchStandalone(rowText)
+      if (standaloneMatches) {
+        moves.push(...standaloneMatches)
       } else {
         // If no pattern found in row text, try each cell individually
         // This handles cases where moves are in separate columns (move number, white, black)
         rowCells.forEach(cell => {
-          const cellText = (cell.Text || '').trim()
+          const cellText = cell.text.trim()
           if (cellText && !isHeaderCell(cellText)) {
             // Skip if it's just a move number (e.g., "23", "24")
             if (/^\d+$/.test(cellText)) {
@@ -164,17 +170,13 @@ export function extractMovesFromTable(response: TextractResponse): string[] {
             }
             
             // Try numbered pattern first
-            const cellMatchesWithNumber = cellText.match(movePatternWithNumber)
+            const cellMatchesWithNumber = matchNumbered(cellText)
             if (cellMatchesWithNumber) {
-              cellMatchesWithNumber.forEach(match => {
-                const cleaned = match.replace(/^\d+\.?\s*/, '').trim()
-                const parts = cleaned.split(/\s+/).filter(p => p.length > 0)
-                moves.push(...parts)
-              })
+              moves.push(...cellMatchesWithNumber)
             } else {
               // Try standalone pattern - this should catch moves like "Qe2", "fxe6", "Rxf7"
-              const cellMatchesStandalone = cellText.match(movePatternStandalone)
-              if (cellMatchesStandalone && cellMatchesStandalone.length > 0) {
+              const cellMatchesStandalone = matchStandalone(cellText)
+              if (cellMatchesStandalone) {
                 // Filter out false positives (like single digits, etc.)
                 const validMoves = cellMatchesStandalone.filter(m => {
                   const trimmed = m.trim()
@@ -187,7 +189,7 @@ export function extractMovesFromTable(response: TextractResponse): string[] {
                   )
                 })
                 if (validMoves.length > 0) {
-                  moves.push(...validMoves.map(match => match.trim()))
+                  moves.push(...validMoves)
                 }
               }
             }
@@ -201,28 +203,108 @@ export function extractMovesFromTable(response: TextractResponse): string[] {
 }
 
 /**
- * Extract chess moves from text
- * Looks for patterns like "1. e4 e5", "1.e4 e5", "1 e4 e5", etc.
+ * Where a move was read on the score sheet, and how sure OCR was of it
  */
-export function extractChessMoves(text: string): string[] {
-  // Normalize text - remove extra whitespace
-  const normalized = text.replace(/\s+/g, ' ').trim()
+export interface MoveSource {
+  box?: OcrBox
+  confidence?: number
+  // The move as written on the sheet, when that is not SAN ("e2-e4", "P-K4")
+  written?: string
+  // Page the move was read from, for games written across several sheets
+  page?: number
+}
 
-  // Pattern to match move sequences
-  // Matches: "1. e4 e5", "1.e4 e5", "1 e4 e5", etc.
-  const movePattern = /(\d+\.?\s*[a-h1-8NBRQKx=+#O-]+\s*[a-h1-8NBRQKx=+#O-]*)/gi
+// How many cells or words ahead to look for the next move before giving up on it
+const SOURCE_LOOKAHEAD = 12
 
-  const matches = normalized.match(movePattern)
-  if (!matches) {
-    return []
+/**
+ * Tokens of a cell or word in the form the extracted moves take: English letters, canonical SAN
+ */
+function moveTokens(text: string, language: NotationLanguage): string[] {
+  return toEnglishNotation(text, language)
+    .split(/\s+/)
+    .map(token => normalizeSan(token.replace(/^\d+\.+/, '')))
+}
+
+/**
+ * Find the cell or word each move was read from, in sheet order
+ * Moves are matched in sequence against table cells in reading order (see ./layout), or
+ * words when there is no table, so repeated moves resolve to the right cell. Within a cell,
+ * the matching word is preferred for a tighter box.
+ * Works for any move list taken from the same page (parser or Lambda output);
+ * the text is read in the given notation language, as the moves were.
+ */
+export function locateMoveSources(
+  page: OcrPage,
+  moves: string[],
+  language: NotationLanguage = 'en',
+  template: ScoreSheetTemplate | null = matchTemplate(page)?.template || null
+): MoveSource[] {
+  let candidates: Array<OcrWord | OcrCell> = analyzeTableLayout(page, template).rows.flat()
+
+  if (candidates.length === 0) {
+    candidates = page.words
+      .filter(word => word.text && word.box)
+      .sort((a, b) => {
+        const topDiff = a.box!.top - b.box!.top
+        if (Math.abs(topDiff) > a.box!.height / 2) return topDiff
+        return a.box!.left - b.box!.left
+      })
   }
 
-  return matches.map((match) => match.trim())
+  const toSource = (item: OcrWord): MoveSource => ({ box: item.box, confidence: item.confidence })
+
+  const tokens = candidates.map(item => moveTokens(item.text, language))
+
+  // Current cell or word and how many of its tokens earlier moves have used up
+  let position = 0
+  let offset = 0
+  return moves.map(move => {
+    const text = normalizeSan(move)
+    const end = Math.min(candidates.length, position + SOURCE_LOOKAHEAD)
+
+    for (let i = position; i < end; i++) {
+      const item = candidates[i]
+      const found = tokens[i].indexOf(text, i === position ? offset : 0)
+      if (found === -1) continue
+
+      // A cell can hold several moves ("e4 e5"), so stay on it for the next move
+      position = i
+      offset = found + 1
+
+      // The word carries its own OCR confidence and a tighter box than the cell
+      const word = 'words' in item
+        ? item.words.find(child => child.text && child.box && moveTokens(child.text, language)[0] === text)
+        : undefined
+      return toSource(word || item)
+    }
+
+    return {}
+  })
 }
 
 /**
- * Extract game metadata from text
+ * Extract chess moves from text
+ * Looks for patterns like "1. e4 e5", "1.e4 e5", "1 e4 e5", etc.
+ * and returns the half-moves in order, in canonical SAN where they are well-formed
  */
+export function extractChessMoves(text: string): string[] {
+  // Normalize text - remove extra whitespace
+  const normalized = text.replace(/\s+/g, ' ').trim()
+
+  return matchNumberedMoves(normalized) || []
+}
+
+export type MetadataField =
+  | 'whitePlayer'
+  | 'blackPlayer'
+  | 'event'
+  | 'site'
+  | 'round'
+  | 'board'
+  | 'date'
+  | 'result'
+
 export interface GameMetadata {
   whitePlayer?: string
   blackPlayer?: string
@@ -230,95 +312,421 @@ export interface GameMetadata {
   result?: string
   event?: string
   site?: string
+  round?: string
+  board?: string
+  eco?: string
+  timeControl?: string
+  whiteElo?: string
+  blackElo?: string
+  annotator?: string
+  // OCR confidence (0-100) of the text each field was read from
+  fieldConfidence?: Partial<Record<MetadataField, number>>
 }
 
-export function extractMetadata(text: string): GameMetadata {
-  const metadata: GameMetadata = {}
+/**
+ * A line of header text with the OCR confidence of each line, cell or word it was built from
+ * (start/end are character offsets into text)
+ */
+interface HeaderLine {
+  text: string
+  segments: Array<{ start: number; end: number; confidence: number }>
+}
+
+// Label words printed on score sheet headers, mapped to the field they introduce
+const METADATA_LABELS: Array<{ field: MetadataField; pattern: RegExp }> = [
+  { field: 'event', pattern: /^(event|tournament|competition)$/i },
+  { field: 'site', pattern: /^(site|venue|location)$/i },
+  { field: 'round', pattern: /^(round|rd)$/i },
+  { field: 'board', pattern: /^(board|bd)$/i },
+  { field: 'date', pattern: /^date$/i },
+  { field: 'whitePlayer', pattern: /^white$/i },
+  { field: 'blackPlayer', pattern: /^black$/i },
+  { field: 'result', pattern: /^result$/i },
+]
+
+const metadataLabelPattern =
+  /\b(event|tournament|competition|site|venue|location|round|rd|board|bd|date|white|black|result)\b\s*[:.#-]?\s*/gi
 
-  // Extract player names (common patterns)
-  const whiteMatch = text.match(/white[:\s]+([A-Za-z\s]+)/i)
-  const blackMatch = text.match(/black[:\s]+([A-Za-z\s]+)/i)
+/**
+ * Normalise a written date to PGN "YYYY.MM.DD"
+ * Day-first is assumed for dd/mm/yyyy unless the numbers only make sense month-first
+ */
+function normalizeDate(value: string): string | null {
+  const yearFirst = value.match(/(\d{4})[./-](\d{1,2})[./-](\d{1,2})/)
+  if (yearFirst) {
+    return `${yearFirst[1]}.${yearFirst[2].padStart(2, '0')}.${yearFirst[3].padStart(2, '0')}`
+  }
+
+  const yearLast = value.match(/(\d{1,2})[./-](\d{1,2})[./-](\d{4})/)
+  if (yearLast) {
+    const first = parseInt(yearLast[1], 10)
+    const second = parseInt(yearLast[2], 10)
+    const monthFirst = second > 12 && first <= 12
+    const day = monthFirst ? second : first
+    const month = monthFirst ? first : second
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null
+    return `${yearLast[3]}.${String(month).padStart(2, '0')}.${String(day).padStart(2, '0')}`
+  }
+
+  return null
+}
+
+/**
+ * Normalise a written result to a PGN result token (1-0, 0-1, 1/2-1/2)
+ */
+function normalizeResult(value: string): string | null {
+  const compact = value.replace(/\s+/g, '')
+  if (/(1\/2|½|0[.,]5)-(1\/2|½|0[.,]5)|^draw$|^½$/i.test(compact)) return '1/2-1/2'
+  if (/1-0/.test(compact)) return '1-0'
+  if (/0-1/.test(compact)) return '0-1'
+  if (/^\*$/.test(compact)) return '*'
+  return null
+}
 
-  if (whiteMatch) {
-    metadata.whitePlayer = whiteMatch[1].trim()
+/**
+ * Clean up a raw value read after a label and check it fits the field
+ */
+function normalizeMetadataValue(field: MetadataField, raw: string): string | null {
+  const value = raw.replace(/^[\s:|_.#-]+|[\s:|_-]+$/g, '').replace(/\s+/g, ' ')
+  if (!value) return null
+
+  switch (field) {
+    case 'date':
+      return normalizeDate(value)
+    case 'result':
+      return normalizeResult(value)
+    case 'round': {
+      const round = value.match(/^\d+(?:\.\d+)*/)
+      return round ? round[0] : null
+    }
+    case 'board': {
+      const board = value.match(/^\d+/)
+      return board ? board[0] : null
+    }
+    case 'whitePlayer':
+    case 'blackPlayer': {
+      // Player names stop at the first digit (ratings, dates or a result written alongside)
+      const name = value.split(/\d/)[0].replace(/[\s(,-]+$/, '')
+      return /[A-Za-z]/.test(name) && name.length <= 80 ? name : null
+    }
+    default:
+      // Events and places must contain letters and stay a sensible length
+      return /[A-Za-z]/.test(value) && value.length <= 80 ? value : null
   }
-  if (blackMatch) {
-    metadata.blackPlayer = blackMatch[1].trim()
+}
+
+/**
+ * Average confidence of the segments overlapping a character range
+ */
+function rangeConfidence(line: HeaderLine, start: number, end: number): number | undefined {
+  const overlapping = line.segments.filter(seg => seg.start < end && seg.end > start)
+  if (overlapping.length === 0) return undefined
+  return overlapping.reduce((sum, seg) => sum + seg.confidence, 0) / overlapping.length
+}
+
+/**
+ * Read labelled fields ("White: Smith", "Round 3", ...) from one header line
+ * Fields already present in metadata are kept
+ */
+function parseHeaderLine(line: HeaderLine, metadata: GameMetadata): void {
+  const labels = Array.from(line.text.matchAll(metadataLabelPattern))
+
+  labels.forEach((label, i) => {
+    const entry = METADATA_LABELS.find(({ pattern }) => pattern.test(label[1]))
+    if (!entry || metadata[entry.field]) return
+
+    const valueStart = (label.index || 0) + label[0].length
+    const valueEnd = i + 1 < labels.length ? labels[i + 1].index || line.text.length : line.text.length
+    const value = normalizeMetadataValue(entry.field, line.text.slice(valueStart, valueEnd))
+    if (!value) return
+
+    metadata[entry.field] = value
+    const confidence = rangeConfidence(line, valueStart, valueEnd)
+    if (confidence !== undefined) {
+      metadata.fieldConfidence = { ...metadata.fieldConfidence, [entry.field]: confidence }
+    }
+  })
+}
+
+/**
+ * Fill in date and result from unlabelled text (e.g. a date written in a corner)
+ */
+function parseUnlabelledFields(line: HeaderLine, metadata: GameMetadata): void {
+  const fallbacks: Array<{ field: MetadataField; pattern: RegExp }> = [
+    { field: 'date', pattern: /(\d{4}[./-]\d{1,2}[./-]\d{1,2})|(\d{1,2}[./-]\d{1,2}[./-]\d{4})/ },
+    { field: 'result', pattern: /(1-0|0-1|1\/2-1\/2|½-½)/ },
+  ]
+
+  fallbacks.forEach(({ field, pattern }) => {
+    if (metadata[field]) return
+    const match = line.text.match(pattern)
+    if (!match) return
+
+    const value = normalizeMetadataValue(field, match[0])
+    if (!value) return
+
+    metadata[field] = value
+    const start = match.index || 0
+    const confidence = rangeConfidence(line, start, start + match[0].length)
+    if (confidence !== undefined) {
+      metadata.fieldConfidence = { ...metadata.fieldConfidence, [field]: confidence }
+    }
+  })
+}
+
+/**
+ * Build a header line from lines, cells or words, remembering where each one's text sits
+ */
+function toHeaderLine(items: OcrWord[]): HeaderLine {
+  let text = ''
+  const segments: HeaderLine['segments'] = []
+
+  items.forEach(item => {
+    const itemText = item.text.trim()
+    if (!itemText) return
+    if (text) text += ' '
+    segments.push({
+      start: text.length,
+      end: text.length + itemText.length,
+      confidence: item.confidence || 0,
+    })
+    text += itemText
+  })
+
+  return { text, segments }
+}
+
+/**
+ * Text outside the table, as lines: the page's lines if it has them, otherwise the
+ * words not in any cell, grouped into lines
+ */
+function looseTextLines(page: OcrPage): OcrWord[][] {
+  const lines = page.lines.filter(line => line.text)
+  if (lines.length > 0) {
+    return lines.map(line => [line])
   }
 
-  // Extract date (various formats)
-  const dateMatch = text.match(/(\d{4}[./-]\d{1,2}[./-]\d{1,2})|(\d{1,2}[./-]\d{1,2}[./-]\d{4})/)
-  if (dateMatch) {
-    metadata.date = dateMatch[0]
+  const cellWords = new Set(pageCells(page).flatMap(cell => cell.words))
+  const looseWords = page.words.filter(word => word.text && word.box && !cellWords.has(word))
+
+  // Group loose words into lines: same line when their tops are within half a word height
+  looseWords.sort((a, b) => a.box!.top - b.box!.top)
+  const wordLines: OcrWord[][] = []
+  looseWords.forEach(word => {
+    const box = word.box!
+    const current = wordLines[wordLines.length - 1]
+    const anchor = current?.[0].box!
+    if (anchor && Math.abs(box.top - anchor.top) < Math.max(anchor.height, box.height) / 2) {
+      current.push(word)
+    } else {
+      wordLines.push([word])
+    }
+  })
+
+  wordLines.forEach(words => {
+    words.sort((a, b) => a.box!.left - b.box!.left)
+  })
+  return wordLines
+}
+
+/**
+ * Collect the header area of the score sheet as lines of text:
+ * the table's header row and rows that carry a metadata label, plus text outside any table.
+ * Text in the excluded regions (signatures, a template's result boxes) is left out.
+ */
+function extractHeaderLines(page: OcrPage, excluded: SheetRegion[] = []): HeaderLine[] {
+  const lines: HeaderLine[] = []
+
+  // Table header rows
+  const headerRow = tableHeaderRow(page)
+  const rows: { [rowIndex: number]: OcrCell[] } = {}
+  pageCells(page)
+    .filter(cell => cell.text)
+    .forEach(cell => {
+      if (!rows[cell.row]) rows[cell.row] = []
+      rows[cell.row].push(cell)
+    })
+
+  Object.keys(rows)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach(rowIndex => {
+      const rowCells = rows[rowIndex].sort((a, b) => a.column - b.column)
+      const line = toHeaderLine(rowCells)
+      metadataLabelPattern.lastIndex = 0
+      if (rowIndex === headerRow || metadataLabelPattern.test(line.text)) {
+        lines.push(line)
+      }
+      metadataLabelPattern.lastIndex = 0
+    })
+
+  looseTextLines(page).forEach(items => {
+    const kept = items.filter(item => !excluded.some(region => isInRegion(item, region)))
+    if (kept.length > 0) lines.push(toHeaderLine(kept))
+  })
+
+  return lines
+}
+
+/**
+ * Fill in fields still missing from where the sheet's template has them written
+ * A result region holding several results is the printed choice, not a result.
+ */
+function parseTemplateRegions(page: OcrPage, template: ScoreSheetTemplate, metadata: GameMetadata): void {
+  const items = looseTextLines(page).flat()
+  const lineIn = (region: SheetRegion) => toHeaderLine(
+    items
+      .filter(item => isInRegion(item, region))
+      .sort((a, b) => a.box!.top - b.box!.top || a.box!.left - b.box!.left)
+  )
+  const setField = (field: MetadataField, value: string, line: HeaderLine) => {
+    metadata[field] = value
+    const confidence = rangeConfidence(line, 0, line.text.length)
+    if (confidence !== undefined) {
+      metadata.fieldConfidence = { ...metadata.fieldConfidence, [field]: confidence }
+    }
   }
 
-  // Extract result (1-0, 0-1, 1/2-1/2)
-  const resultMatch = text.match(/(1-0|0-1|1\/2-1\/2|\*)/)
-  if (resultMatch) {
-    metadata.result = resultMatch[0]
+  template.header.forEach(({ field, label, region }) => {
+    if (metadata[field]) return
+    const line = lineIn(region)
+    const value = normalizeMetadataValue(field, line.text.replace(label, ''))
+    if (value) setField(field, value, line)
+  })
+
+  if (!metadata.result) {
+    const line = lineIn(template.result)
+    const results = new Set((line.text.match(/1-0|0-1|1\/2-1\/2|½-½/g) || []).map(normalizeResult))
+    if (results.size === 1) setField('result', Array.from(results)[0]!, line)
   }
+}
 
+function extractMetadataFromLines(lines: HeaderLine[]): GameMetadata {
+  const metadata: GameMetadata = {}
+  lines.forEach(line => parseHeaderLine(line, metadata))
+  lines.forEach(line => parseUnlabelledFields(line, metadata))
   return metadata
 }
 
 /**
- * Parse full Textract response and extract chess game data
- * Optimized for table structure (TABLE/CELL blocks) but supports legacy LINE blocks
+ * Extract game metadata from text
  */
+export function extractMetadata(text: string): GameMetadata {
+  return extractMetadataFromLines([{ text, segments: [] }])
+}
+
+/**
+ * Extract game metadata from the header area of the page,
+ * with the OCR confidence of each field
+ * On a sheet matching a template, its signature and result boxes are kept out of the
+ * header, and fields without a label are read from where the template has them.
+ */
+export function extractHeaderMetadata(
+  page: OcrPage,
+  template: ScoreSheetTemplate | null = matchTemplate(page)?.template || null
+): GameMetadata {
+  const excluded = template ? [template.result, ...template.signatures] : []
+  const metadata = extractMetadataFromLines(extractHeaderLines(page, excluded))
+  if (template) parseTemplateRegions(page, template, metadata)
+  return metadata
+}
+
 export interface ParsedChessGame {
   rawText: string
+  // Moves in English SAN, whatever piece letters the sheet uses
   moves: string[]
+  // Moves as written, aligned with moves, when the sheet is not all in SAN
+  // (descriptive, long algebraic or coordinate notation)
+  sheetMoves?: string[]
+  // Piece-letter language and notation system the moves were read in
+  notationLanguage?: NotationLanguage
+  notationSystem?: NotationSystem
+  // Cell or word each move was read from, aligned with moves (empty when unknown)
+  moveSources?: MoveSource[]
+  // How the move list is laid out on the sheet (column blocks and their order)
+  layout?: SheetLayout
+  // Id of the score-sheet template the sheet was read with (see ./templates)
+  template?: string
   metadata: GameMetadata
   confidence: number
 }
 
-export function parseTextractResponse(
-  response: TextractResponse
+export interface ParseOptions {
+  // Piece-letter language of the sheet; detected from letter frequency when left out
+  language?: NotationLanguage
+  // Algebraic or descriptive notation; detected from the move shapes when left out
+  system?: NotationSystem
+  // Template id to read the sheet with, or null for the generic heuristics;
+  // matched from keywords and table shape when left out
+  template?: string | null
+  // Position a continuation page starts from, for notations read against the board
+  startFen?: string
+}
+
+/**
+ * Read the chess game on a score sheet page
+ * Optimized for table structure (tables of cells) but reads pages of plain lines too
+ */
+export function parseScoreSheet(
+  page: OcrPage,
+  options: ParseOptions = {}
 ): ParsedChessGame {
-  // Check if we have table structure (TABLE/CELL blocks)
-  const hasTableStructure = response.Blocks.some(
-    block => block.BlockType === 'TABLE' || block.BlockType === 'CELL'
-  )
+  // Moves are extracted from an English copy; metadata is read from the sheet as written.
+  // Descriptive notation is English only.
+  const notationSystem = options.system || detectSheetSystem(page)
+  const notationLanguage = notationSystem === 'descriptive' ? 'en' : options.language || detectSheetLanguage(page)
+  const movePage = toEnglishPage(page, notationLanguage)
+  // A known sheet design is read with its own grid and header positions
+  const template = options.template === undefined
+    ? matchTemplate(page)?.template || null
+    : options.template === null ? null : findTemplate(options.template) || null
+
+  // Check if we have table structure
+  const hasTableStructure = page.tables.length > 0
 
   let moves: string[]
   let rawText: string
-  let confidenceBlocks: TextractBlock[]
+  let confidenceBlocks: OcrTextBlock[]
 
   if (hasTableStructure) {
     // Use table-based extraction (optimized for cost - ignores header/metadata)
-    moves = extractMovesFromTable(response)
-    rawText = extractTextFromTextract(response) // Will use CELL blocks
-    
-    // Calculate confidence from CELL blocks only (not headers)
-    confidenceBlocks = response.Blocks.filter(
-      (block) => block.BlockType === 'CELL' && 
-                 block.Confidence !== undefined &&
-                 block.RowIndex !== undefined &&
-                 block.RowIndex > 0  // Exclude row 0 (header)
-    )
+    moves = extractMovesFromTable(movePage, notationSystem, template)
+    rawText = extractTextFromPage(page, template) // Will use the cells
+
+    // Calculate confidence from cells only (not headers)
+    const headerRow = tableHeaderRow(page)
+    confidenceBlocks = pageCells(page).filter(cell => cell.row !== headerRow) // Exclude the header row
   } else {
-    // Fallback to legacy LINE-based extraction
-    rawText = extractTextFromTextract(response)
-    moves = extractChessMoves(rawText)
-    confidenceBlocks = response.Blocks.filter(
-      (block) => block.BlockType === 'LINE' && block.Confidence
-    )
+    // Fallback to line-based extraction
+    rawText = extractTextFromPage(page)
+    moves = notationSystem === 'descriptive'
+      ? matchDescriptiveMoves(rawText) || []
+      : extractChessMoves(toEnglishNotation(rawText, notationLanguage))
+    confidenceBlocks = page.lines.filter(line => line.confidence)
   }
 
   // Calculate average confidence from relevant blocks
   const avgConfidence = confidenceBlocks.length > 0
-    ? confidenceBlocks.reduce((sum, block) => sum + (block.Confidence || 0), 0) / confidenceBlocks.length
+    ? confidenceBlocks.reduce((sum, block) => sum + (block.confidence || 0), 0) / confidenceBlocks.length
     : 0
 
-  // Extract metadata (if needed, but typically ignored per requirement #2)
-  // For cost optimization, we skip metadata extraction from headers
-  const metadata: GameMetadata = {}
+  // Extract players, event, round, date and result from the sheet header
+  const metadata = extractHeaderMetadata(page, template)
+
+  // Descriptive and long algebraic moves only become SAN in the context of the whole game
+  const sheetMoves = notationSystem === 'descriptive' || moves.some(isLongAlgebraic) ? moves : undefined
+  const convert = notationSystem === 'descriptive' ? convertDescriptiveGame : convertLongAlgebraicGame
 
   return {
     rawText,
-    moves,
-    metadata,  // Empty by default - ignores header/metadata per requirement
+    moves: sheetMoves ? convert(sheetMoves, options.startFen) : moves,
+    sheetMoves,
+    notationLanguage,
+    notationSystem,
+    moveSources: locateMoveSources(page, moves, notationLanguage, template),
+    layout: hasTableStructure ? analyzeTableLayout(page, template).layout : analyzeLineLayout(page).layout,
+    template: template?.id,
+    metadata,
     confidence: avgConfidence,
   }
 }
-
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { reconstructGame } from './reconstruction'
+
+const OPERA_GAME = [
+  'e4', 'e5', 'Nf3', 'd6', 'd4', 'Bg4', 'dxe5', 'Bxf3', 'Qxf3', 'dxe5', 'Bc4', 'Nf6',
+  'Qb3', 'Qe7', 'Nc3', 'c6', 'Bg5', 'b5', 'Nxb5', 'cxb5', 'Bxb5+', 'Nbd7', 'O-O-O', 'Rd8',
+  'Rxd7', 'Rxd7', 'Rd1', 'Qe6', 'Bxd7+', 'Nxd7', 'Qb8+', 'Nxb8', 'Rd8#',
+]
+const MATE = '1n1Rkb1r/p4ppp/4q3/4p1B1/4P3/8/PPP2PPP/2K5 b k - 1 17'
+
+const withoutPly = (ply: number) => OPERA_GAME.filter((_, index) => index !== ply)
+
+describe('reconstructGame', () => {
+  it('keeps a game that replays as written', () => {
+    const { best } = reconstructGame(OPERA_GAME)
+
+    assert.deepEqual(best.moves.map(move => move.move), OPERA_GAME)
+    assert.equal(best.moves.every(move => move.valid && !move.corrected), true)
+    assert.equal(best.fen, MATE)
+  })
+
+  it('corrects misread moves from the legal moves in the position', () => {
+    const misread = OPERA_GAME.slice()
+    misread[5] = 'Bq4'
+    misread[11] = 'Nt6'
+    const { best } = reconstructGame(misread)
+
+    assert.deepEqual(best.moves.map(move => move.move), OPERA_GAME)
+    assert.deepEqual(best.moves.filter(move => move.corrected).map(move => move.original), ['Bq4', 'Nt6'])
+  })
+
+  it('plays a missing White move so the moves after it are read on the right board', () => {
+    // 7. dxe5 is missing; without it Black's "dxe5" two moves later is not legal
+    const { best } = reconstructGame(withoutPly(6))
+
+    assert.deepEqual(best.moves.map(move => move.move), OPERA_GAME)
+    assert.equal(best.fen, MATE)
+    const repaired = best.moves.filter(move => move.repair)
+    assert.deepEqual(repaired.map(move => [move.repair, move.move]), [['inserted-placeholder', 'dxe5']])
+    assert.equal(repaired[0].candidates[0].method, 'continuation')
+  })
+
+  it('plays a missing Black move', () => {
+    // 8... c6 is missing; White's next moves fit without it, but "cxb5" does not
+    const { best } = reconstructGame(withoutPly(15))
+
+    assert.deepEqual(best.moves.map(move => move.move), OPERA_GAME)
+    assert.deepEqual(best.moves.filter(move => move.repair).map(move => [move.repair, move.move]), [['inserted-placeholder', 'c6']])
+  })
+
+  it('plays a missing checking move that the moves after it depend on', () => {
+    // 11. Bxb5+ is missing; 16. Bxd7+ and 17. Qb8+ Nxb8 18. Rd8# only fit the game with it
+    const { best } = reconstructGame(withoutPly(20))
+
+    assert.deepEqual(best.moves.map(move => move.move), OPERA_GAME)
+    assert.equal(best.fen, MATE)
+  })
+
+  it('prefers the move that matches the capture and mate marks written', () => {
+    // Without 17. Qb8+, "Nxb8" could also be read as a quiet knight move and
+    // "Rd8#" as a rook move that is not mate
+    const { best } = reconstructGame(withoutPly(30))
+
+    assert.deepEqual(best.moves.slice(-3).map(move => move.move), ['Qb8+', 'Nxb8', 'Rd8#'])
+  })
+
+  it('drops a stray token', () => {
+    const { best } = reconstructGame([...OPERA_GAME.slice(0, 10), '12', ...OPERA_GAME.slice(10)])
+
+    assert.deepEqual(best.moves.filter(move => !move.repair).map(move => move.move), OPERA_GAME)
+    assert.deepEqual(best.moves.filter(move => move.repair).map(move => [move.repair, move.original]), [['dropped-token', '12']])
+  })
+})
@@ -0,0 +1,432 @@
+/**
+ * Reconstruct a whole game from OCR move text
+ *
+ * Instead of committing to the first legal correction of each move, a beam search
+ * keeps the best few candidate sequences alive and scores them over the whole game,
+ * so a wrong early pick is dropped as soon as the moves after it stop fitting.
+ *
+ * Shared by the browser and the S3 trigger Lambda; the Lambda gets a CommonJS copy
+ * from scripts/build-lambda-shared.js, so this file must only import chess.js and
+ * other shared modules.
+ */
+
+import { Chess } from 'chess.js'
+import { normalizeCastling } from './san'
+
+export type CandidateMove = {
+  move: string
+  score: number
+  // 'continuation' marks a guessed missing move, scored by how well the next few moves fit after it;
+  // 'notation' a move the token stands for in another notation (ReconstructionOptions.interpret)
+  method: 'pattern-based' | 'levenshtein' | 'continuation' | 'notation'
+  distance?: number
+}
+
+// How the search changed the list of OCR tokens to keep the game legal
+export type RepairType = 'inserted-placeholder' | 'dropped-token'
+
+export interface ReconstructedMove {
+  original: string
+  // The legal move chosen for this ply, or the original text when nothing fitted
+  move: string
+  valid: boolean
+  corrected: boolean
+  similarity: number
+  confidence?: number
+  error?: string
+  // Best legal moves in the position before this ply, best first
+  candidates: CandidateMove[]
+  // Set when this entry is not a plain reading of its token: a guessed half-move the
+  // sheet is missing (empty original), or a token that was left out of the game
+  repair?: RepairType
+}
+
+export interface Reconstruction {
+  moves: ReconstructedMove[]
+  // Geometric mean of the per-ply similarities, in [0, 1]; higher is better
+  score: number
+  fen: string
+}
+
+export interface ReconstructionResult {
+  best: Reconstruction
+  alternatives: Reconstruction[]
+}
+
+export interface ReconstructionOptions {
+  // Textract confidence (0-100) per move; missing entries count as fully confident
+  confidences?: Array<number | null | undefined>
+  beamWidth?: number
+  candidatesPerMove?: number
+  alternatives?: number
+  // Below this similarity a ply is flagged invalid even though a legal move was played
+  minSimilarity?: number
+  // Consider skipping a token or inserting a missing half-move where the text stops fitting
+  allowRepairs?: boolean
+  // Legal moves a token stands for in another notation (e.g. descriptive "PxP"), each read
+  // as an exact match; with several, the moves after it decide
+  interpret?: (board: Chess, original: string) => string[]
+  // Position the moves are played from, e.g. where the previous page of the game ends
+  startFen?: string
+}
+
+const DEFAULT_BEAM_WIDTH = 8
+const DEFAULT_CANDIDATES_PER_MOVE = 6
+const DEFAULT_ALTERNATIVES = 3
+const DEFAULT_MIN_SIMILARITY = 0.5
+const SUGGESTION_LIMIT = 5
+// Cost of one repair; about what a single unreadable ply costs, so a repair only
+// wins when it makes the following moves fit again
+const REPAIR_COST = 0.8
+const INSERTIONS_PER_STATE = 3
+// A reading this close (one confusable character off) is never taken for a missing half-move
+const GAP_SIMILARITY = 0.85
+// Sequences per token that look for a missing half-move, cheapest first
+const GAP_STATES = 3
+// A repair pays its cost at once and only earns it back over the next few moves,
+// so recent repairs get a few places in the beam of their own
+const REPAIR_SLOTS = 3
+const REPAIR_GRACE = 4
+
+// Characters handwriting OCR commonly reads in place of each other
+const CONFUSABLE_PAIRS = [
+  'H4', 'h4', 'b6', 'l1', 'I1', 'i1', 'S5', 's5', 'Z2', 'z2', 'G6',
+  'g9', 'B8', 'O0', 'o0', 'Q0', 'D0', 'T7', 'q9', 'a0', 'e2', 'c6',
+]
+
+const CONFUSABLE_COST = 0.25
+
+const confusable = new Set(CONFUSABLE_PAIRS.flatMap(pair => [pair, `${pair[1]}${pair[0]}`]))
+
+/**
+ * Reduce move text to what matters for matching: no move numbers, check marks,
+ * annotations, capture or promotion signs, and castling spelled with letter O
+ */
+export function normalizeMoveText(text: string): string {
+  // "12." or "12 e4" is a move number; "0-0" is not
+  const cleaned = text.trim().replace(/^\d+(\.+\s*|\s+)/, '').replace(/\s*e\.\s?p\.?/i, '').split(/\s+/)[0] || ''
+  return normalizeCastling(cleaned.replace(/[!?]+$/, '')) || cleaned.replace(/[+#!?x:=]/g, '')
+}
+
+/**
+ * Edit distance where confusable characters are cheap to substitute
+ */
+function editDistance(a: string, b: string, weighted: boolean): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = a[i - 1] === b[j - 1]
+        ? 0
+        : weighted && confusable.has(`${a[i - 1]}${b[j - 1]}`) ? CONFUSABLE_COST : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + substitution)
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+// Capture, check and mate marks written in the text that the move does not have; OCR
+// drops marks far more often than it invents them, so only marks in the text count
+const MARK_COST = 0.05
+
+function missingMarks(ocrText: string, san: string): number {
+  const written = ocrText.trim().replace(/^\d+(\.+\s*|\s+)/, '').replace(/(!!|\?\?|!\?|\?!|!|\?)$/, '')
+  const capture = /[x:]/.test(written) && !san.includes('x')
+  const check = /#$/.test(written) ? !san.endsWith('#') : /\+$/.test(written) && !/[+#]$/.test(san)
+  return Number(capture) + Number(check)
+}
+
+/**
+ * Score a legal move against the OCR text it might have been written as
+ */
+export function scoreCandidate(ocrText: string, san: string): CandidateMove {
+  const read = normalizeMoveText(ocrText)
+  const legal = normalizeMoveText(san)
+  const length = Math.max(read.length, legal.length, 1)
+  const distance = editDistance(read, legal, false)
+  const weightedDistance = editDistance(read, legal, true)
+
+  return {
+    move: san,
+    score: Math.max(0, 1 - weightedDistance / length - MARK_COST * missingMarks(ocrText, san)),
+    method: weightedDistance < distance ? 'pattern-based' : 'levenshtein',
+    distance,
+  }
+}
+
+// One ply of a sequence; sequences share their prefix through the parent link
+type SearchStep = {
+  parent: SearchStep | null
+  move: ReconstructedMove
+  // The move made on the search board; null when the board did not change
+  played: string | null
+}
+
+type SearchState = {
+  fen: string
+  last: SearchStep | null
+  cost: number
+  // Token index of the latest repair on this sequence
+  repairedAt?: number
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Negative log of the similarity, so sequence cost adds up like a likelihood; capped so one
+// unreadable token cannot outweigh the rest of the game
+const MAX_PLY_COST = 1.5
+const plyCost = (score: number) => Math.min(MAX_PLY_COST, -Math.log(Math.max(score, 0.01)))
+
+const rankCandidates = (board: Chess, original: string, readings: string[] = []) =>
+  board.moves()
+    .map((san): CandidateMove => readings.includes(san) ? { move: san, score: 1, method: 'notation' } : scoreCandidate(original, san))
+    .sort((a, b) => b.score - a.score || (a.distance ?? 0) - (b.distance ?? 0))
+
+const topCandidates = (ranked: CandidateMove[]) =>
+  ranked.slice(0, SUGGESTION_LIMIT).map(candidate => ({ ...candidate, score: round(candidate.score) }))
+
+function unwind(state: SearchState): SearchStep[] {
+  const steps: SearchStep[] = []
+  for (let step = state.last; step; step = step.parent) {
+    steps.unshift(step)
+  }
+  return steps
+}
+
+const tryMove = (board: Chess, move: string) => {
+  try {
+    return board.move(move)
+  } catch {
+    return null
+  }
+}
+
+// Tokens read ahead of a guessed missing half-move to tell the guesses apart: a few for
+// every legal move, more for the ones that fit those equally well
+const GAP_LOOKAHEAD = 3
+const GAP_TIEBREAK_LOOKAHEAD = 32
+
+// Cost of playing `gap` and then the next tokens, each as written when that is legal
+// and as its best reading otherwise; stops early once the cost passes `bound`
+function gapCost(
+  fen: string,
+  gap: string,
+  following: string[],
+  bound: number,
+  interpret?: ReconstructionOptions['interpret']
+): number {
+  const board = new Chess(fen)
+  board.move(gap)
+  let cost = 0
+  for (const original of following) {
+    const readings = interpret ? interpret(board, original) : []
+    const played = readings.length === 0 ? tryMove(board, normalizeMoveText(original)) : null
+    if (played) {
+      cost += plyCost(scoreCandidate(original, played.san).score)
+      continue
+    }
+    const [best] = rankCandidates(board, original, readings)
+    cost += best ? plyCost(best.score) : MAX_PLY_COST
+    if (!best || cost > bound) break
+    board.move(best.move)
+  }
+  return cost
+}
+
+/**
+ * Legal moves that could fill a half-move missing before `moves[index]`, best first
+ * A gap move is scored by how well the moves written after it fit: many moves fit the
+ * first token alone ("Bxf3" after any quiet White move), but few keep the later ones
+ * legal, so moves that tie over the first few tokens are followed further.
+ */
+function gapMoves(board: Chess, moves: string[], index: number, interpret?: ReconstructionOptions['interpret']): CandidateMove[] {
+  const fen = board.fen()
+  const rank = (following: string[], gaps: string[]) => {
+    let bound = Infinity
+    return gaps
+      .map(move => {
+        const cost = gapCost(fen, move, following, bound, interpret)
+        bound = Math.min(bound, cost)
+        return { move, cost, score: Math.exp(-cost / following.length), method: 'continuation' as const }
+      })
+      .sort((a, b) => a.cost - b.cost)
+  }
+
+  const ranked = rank(moves.slice(index, index + GAP_LOOKAHEAD), board.moves())
+  const tied = ranked.filter(gap => gap.cost === ranked[0].cost)
+  const settled = tied.length > 1
+    ? rank(moves.slice(index, index + GAP_TIEBREAK_LOOKAHEAD), tied.map(gap => gap.move)).concat(ranked.slice(tied.length))
+    : ranked
+
+  return settled.map(({ move, score, method }) => ({ move, score, method }))
+}
+
+function toReconstruction(state: SearchState, plies: number): Reconstruction {
+  return {
+    moves: unwind(state).map(step => step.move),
+    score: round(plies > 0 ? Math.exp(-state.cost / plies) : 1),
+    fen: state.fen,
+  }
+}
+
+/**
+ * Rebuild the most plausible legal game from OCR moves
+ * Each ply costs the negative log of its similarity, capped at MAX_PLY_COST and discounted
+ * when Textract itself was unsure of the text, and sequences are ranked by their total
+ * cost over the whole game. At every ply the
+ * search also tries dropping the token and, where the token does not read as a move,
+ * playing a missing half-move before it.
+ */
+export function reconstructGame(moves: string[], options: ReconstructionOptions = {}): ReconstructionResult {
+  const {
+    confidences = [],
+    beamWidth = DEFAULT_BEAM_WIDTH,
+    candidatesPerMove = DEFAULT_CANDIDATES_PER_MOVE,
+    alternatives = DEFAULT_ALTERNATIVES,
+    minSimilarity = DEFAULT_MIN_SIMILARITY,
+    allowRepairs = true,
+    interpret,
+    startFen = new Chess().fen(),
+  } = options
+
+  let beam: SearchState[] = [{ fen: startFen, last: null, cost: 0 }]
+
+  moves.forEach((original, index) => {
+    const confidence = confidences[index] ?? undefined
+    // A low-confidence read is weaker evidence, so straying from it costs less
+    const weight = confidence === undefined ? 1 : 0.5 + 0.5 * Math.min(100, Math.max(0, confidence)) / 100
+    const expanded = new Map<string, SearchState>()
+
+    const keep = (state: SearchState) => {
+      const existing = expanded.get(state.fen)
+      if (!existing || state.cost < existing.cost) expanded.set(state.fen, state)
+    }
+
+    // Read the token as a move from this position; returns the best similarity
+    const expand = (state: SearchState, board: Chess, extraCost: number, limit: number): number => {
+      const readings = interpret ? interpret(board, original) : []
+      const ranked = rankCandidates(board, original, readings)
+      const candidates = topCandidates(ranked)
+
+      if (ranked.length === 0) {
+        // The game is already over; keep the text so the reviewer sees it
+        keep({
+          ...state,
+          cost: state.cost + extraCost + MAX_PLY_COST * weight,
+          last: {
+            parent: state.last,
+            move: { original, move: original, valid: false, corrected: false, similarity: 0, confidence, error: 'No legal moves available', candidates },
+            played: null,
+          },
+        })
+        return 0
+      }
+
+      for (const candidate of ranked.slice(0, limit)) {
+        const next = new Chess(board.fen())
+        next.move(candidate.move)
+
+        const fits = candidate.score >= minSimilarity
+        // A reading in another notation is exact even when the token has several; the
+        // moves after it have already chosen between them
+        const exact = normalizeMoveText(original) === normalizeMoveText(candidate.move) || readings.includes(candidate.move)
+        keep({
+          fen: next.fen(),
+          repairedAt: state.repairedAt,
+          cost: state.cost + extraCost + plyCost(candidate.score) * weight,
+          last: {
+            parent: state.last,
+            move: {
+              original,
+              // An unreadable ply still advances the board so later moves line up
+              move: fits ? candidate.move : original,
+              valid: fits,
+              corrected: fits && !exact,
+              similarity: round(candidate.score),
+              confidence,
+              error: fits ? undefined : 'No legal move resembles the text',
+              candidates,
+            },
+            played: candidate.move,
+          },
+        })
+      }
+      return ranked[0].score
+    }
+
+    let gapSearches = 0
+    for (const state of beam) {
+      const board = new Chess(state.fen)
+      const similarity = expand(state, board, 0, candidatesPerMove)
+      if (!allowRepairs) continue
+
+      // This token is noise (a merged or stray cell); the last token is never dropped,
+      // so every dropped token is followed by a kept one
+      if (index < moves.length - 1) {
+        keep({
+          ...state,
+          repairedAt: index,
+          cost: state.cost + REPAIR_COST * weight,
+          last: {
+            parent: state.last,
+            move: { original, move: original, valid: false, corrected: false, similarity: 0, confidence, candidates: [], repair: 'dropped-token' },
+            played: null,
+          },
+        })
+      }
+
+      // A half-move is missing before this token (an empty cell). Trying every legal move
+      // for it is costly, so only where the token does not read as a move here, on
+      // the few sequences closest to the best that have not just been repaired
+      const recentlyRepaired = state.repairedAt !== undefined && index - state.repairedAt < REPAIR_GRACE
+      if (similarity < GAP_SIMILARITY && !recentlyRepaired && state.cost - beam[0].cost < REPAIR_COST / 2 && gapSearches++ < GAP_STATES) {
+        const gaps = gapMoves(board, moves, index, interpret)
+        for (const gap of gaps.slice(0, INSERTIONS_PER_STATE)) {
+          const next = new Chess(state.fen)
+          next.move(gap.move)
+          const inserted: SearchStep = {
+            parent: state.last,
+            move: { original: '', move: gap.move, valid: true, corrected: true, similarity: 0, candidates: topCandidates(gaps), repair: 'inserted-placeholder' },
+            played: gap.move,
+          }
+          expand({ fen: next.fen(), last: inserted, cost: state.cost, repairedAt: index }, next, REPAIR_COST, INSERTIONS_PER_STATE)
+        }
+      }
+    }
+
+    const ranked = Array.from(expanded.values()).sort((a, b) => a.cost - b.cost)
+    const freshRepairs = ranked
+      .slice(beamWidth)
+      .filter(state => state.repairedAt !== undefined && index - state.repairedAt < REPAIR_GRACE)
+      .slice(0, REPAIR_SLOTS)
+    beam = ranked.slice(0, beamWidth).concat(freshRepairs)
+  })
+
+  const [best, ...rest] = beam
+  return {
+    best: toReconstruction(best, moves.length),
+    alternatives: rest.slice(0, alternatives).map(state => toReconstruction(state, moves.length)),
+  }
+}
+
+/**
+ * Rewrite a game written in another notation as SAN, reading each token with `interpret`
+ * Moves read as one of their legal readings, given the moves around them, come back in
+ * SAN (with their annotation glyph); moves no reading fits keep their text for
+ * validation to flag. A game continued from another page is read from `startFen`.
+ */
+export function rewriteAsSan(
+  moves: string[],
+  interpret: NonNullable<ReconstructionOptions['interpret']>,
+  startFen?: string
+): string[] {
+  const { best } = reconstructGame(moves, { allowRepairs: false, interpret, startFen })
+  return best.moves.map(move => {
+    if (!move.valid || move.corrected) return move.original
+    const annotation = move.original.match(/(!!|\?\?|!\?|\?!|!|\?)$/)?.[1]
+    return `${move.move}${annotation || ''}`
+  })
+}
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { matchNumberedMoves, matchStandaloneMoves, normalizeCastling, normalizeSan, parseSan, splitAnnotation } from './san'
+
+describe('parseSan', () => {
+  it('reads promotions with or without "="', () => {
+    assert.equal(parseSan('e8=Q')?.san, 'e8=Q')
+    assert.equal(parseSan('e8Q')?.san, 'e8=Q')
+    assert.equal(parseSan('dxc1N+')?.san, 'dxc1=N+')
+    assert.equal(parseSan('e8Q')?.promotion, 'Q')
+  })
+
+  it('rejects a promotion short of the last rank', () => {
+    assert.equal(parseSan('e7=Q'), null)
+  })
+
+  it('keeps file, rank and square disambiguation', () => {
+    assert.equal(parseSan('Nbd7')?.from, 'b')
+    assert.equal(parseSan('R1e2')?.from, '1')
+    assert.equal(parseSan('Qh4xe1')?.san, 'Qh4xe1')
+  })
+
+  it('reads ":" captures and en passant', () => {
+    const move = parseSan('exd6 e.p.')
+
+    assert.equal(parseSan('B:f7+')?.san, 'Bxf7+')
+    assert.equal(move?.san, 'exd6')
+    assert.equal(move?.enPassant, true)
+  })
+
+  it('keeps annotation glyphs as NAGs', () => {
+    assert.equal(parseSan('Nf3!?')?.nag, 5)
+    assert.equal(parseSan('Qxf7#!!')?.san, 'Qxf7#')
+    assert.equal(parseSan('Qxf7#!!')?.nag, 3)
+  })
+})
+
+describe('normalizeCastling', () => {
+  it('accepts the usual spellings', () => {
+    assert.equal(normalizeCastling('0-0'), 'O-O')
+    assert.equal(normalizeCastling('o-o-o'), 'O-O-O')
+    assert.equal(normalizeCastling('00+'), 'O-O')
+    assert.equal(normalizeCastling('O-0'), null)
+  })
+})
+
+describe('normalizeSan', () => {
+  it('rewrites moves in canonical SAN and leaves other text alone', () => {
+    assert.equal(normalizeSan('e8Q!'), 'e8=Q!')
+    assert.equal(normalizeSan('0-0-0'), 'O-O-O')
+    assert.equal(normalizeSan('Nxq5'), 'Nxq5')
+  })
+})
+
+describe('splitAnnotation', () => {
+  it('splits the glyph from moves and from unreadable text', () => {
+    assert.deepEqual(splitAnnotation('Nf3?!'), { move: 'Nf3', nag: 6 })
+    assert.deepEqual(splitAnnotation('Nxq5?'), { move: 'Nxq5', nag: 2 })
+  })
+})
+
+describe('matchNumberedMoves', () => {
+  it('reads moves after move numbers, without results or castling zeros as numbers', () => {
+    assert.deepEqual(matchNumberedMoves('1. e4 e5 2.Nf3 Nc6 3. Bb5 a6 4. 0-0 Nf6 1-0'), [
+      'e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6', 'O-O', 'Nf6',
+    ])
+  })
+})
+
+describe('matchStandaloneMoves', () => {
+  it('finds moves in running text', () => {
+    assert.deepEqual(matchStandaloneMoves('White e4 then Nf3, black replies exd4 e.p. and O-O'), ['e4', 'Nf3', 'exd4', 'O-O'])
+  })
+})
@@ -0,0 +1,198 @@
+/**
+ * Standard Algebraic Notation (SAN) tokens as written on score sheets
+ *
+ * Recognises castling in its usual spellings (O-O, 0-0, o-o), promotions with or
+ * without "=", file/rank/square disambiguation, "x" or ":" captures, "e.p." and
+ * annotation glyphs, which are kept so the converter can write them as NAGs.
+ *
+ * Shared by the browser and the S3 trigger Lambda (see scripts/build-lambda-shared.js).
+ */
+
+export type SanPiece = 'P' | 'N' | 'B' | 'R' | 'Q' | 'K'
+
+export interface SanMove {
+  // Canonical SAN without annotation glyph, e.g. "exd8=Q+", "Nbd7", "O-O"
+  san: string
+  piece: SanPiece
+  // Disambiguation as written: a file, a rank or a full square
+  from?: string
+  to?: string
+  capture: boolean
+  promotion?: Exclude<SanPiece, 'P' | 'K'>
+  castling?: 'O-O' | 'O-O-O'
+  check?: '+' | '#'
+  enPassant: boolean
+  annotation?: string
+  nag?: number
+}
+
+// Numeric Annotation Glyphs for the move suffixes of the PGN standard
+export const ANNOTATION_NAGS: { [glyph: string]: number } = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6,
+}
+
+const CASTLING_PATTERN = /^([0oO])-?\1(-?\1)?$/
+const EN_PASSANT_PATTERN = /\s*e\.\s?p\.?/gi
+const GAME_RESULT_PATTERN = /^(1-0|0-1|1\/2-1\/2|½-½|\*)$/
+
+const SAN_PATTERN = new RegExp(
+  '^(?:' +
+    '(?<castling>[0oO]-?[0oO](?:-?[0oO])?)' +
+    '|(?<piece>[NBRQK])(?<from>[a-h]?[1-8]?)(?<pieceCapture>[x:])?(?<pieceTo>[a-h][1-8])' +
+    '|(?:(?<pawnFrom>[a-h])[1-8]?(?<pawnCapture>[x:]))?(?<pawnTo>[a-h][1-8])(?:=?(?<promotion>[NBRQ]))?' +
+  ')' +
+  '(?<check>[+#])?(?<enPassant>\\s?e\\.\\s?p\\.?)?(?<lateCheck>[+#])?' +
+  '(?<annotation>!!|\\?\\?|!\\?|\\?!|!|\\?)?$'
+)
+
+// Same shapes as SAN_PATTERN, for finding moves in running text. Case-insensitive so
+// OCR slips like "nf3" are still picked up; parseSan decides what they mean. Long
+// algebraic moves ("e2-e4", "Ng1-f3", "e7e8q") are kept whole for the board to read.
+const SAN_SCAN_SOURCE =
+  '(^|[^A-Za-z0-9])(' +
+    '(?:[NBRQK]?[a-h][1-8][-x:]?[a-h][1-8](?:=?[NBRQ])?' +
+    '|[0O]-?[0O](?:-?[0O])?' +
+    '|[NBRQK][a-h]?[1-8]?[x:]?[a-h][1-8]' +
+    '|(?:[a-h][1-8]?[x:])?[a-h][1-8](?:=?[NBRQ])?)' +
+    '[+#]?(?:\\s?e\\.\\s?p\\.?)?[+#]?(?:!!|\\?\\?|!\\?|\\?!|!|\\?)?' +
+  ')(?![A-Za-z0-9])'
+
+// A move number followed by up to two tokens made of move characters, e.g. "12. Nf3 Nc6"
+// Loose on purpose: garbled OCR tokens after a move number are still worth correcting.
+// The number needs a dot, a space or a move right after it, and may not be part of a
+// longer token, so the zeros of "0-0" are not read as one; the next move number is
+// never taken as the second token.
+const NUMBERED_MOVES_PATTERN = /(?:^|[^\w-])(\d+(?:\.{1,3}\s*|\s+|(?=[a-hNBRQK]))[a-h0-8NBRQKx:=+#O!?-]+(?:\s+(?!\d+(?:\.|\s|$))[a-h0-8NBRQKx:=+#O!?-]+)?)/gi
+
+/**
+ * Canonical castling notation for any of the usual spellings, or null
+ * Accepts "O-O", "0-0", "o-o", "00", with optional check sign
+ */
+export function normalizeCastling(text: string): 'O-O' | 'O-O-O' | null {
+  const match = text.trim().replace(/[+#]$/, '').match(CASTLING_PATTERN)
+  if (!match) return null
+  return match[2] ? 'O-O-O' : 'O-O'
+}
+
+/**
+ * Parse one SAN token, or return null when it is not a well-formed move
+ */
+export function parseSan(text: string): SanMove | null {
+  const match = text.trim().match(SAN_PATTERN)
+  if (!match?.groups) return null
+
+  const groups = match.groups
+  const check = (groups.lateCheck || groups.check) as SanMove['check']
+  const annotation = groups.annotation
+  const suffix = `${check || ''}`
+
+  if (groups.castling) {
+    const castling = normalizeCastling(groups.castling)
+    if (!castling) return null
+    return {
+      san: `${castling}${suffix}`,
+      piece: 'K',
+      capture: false,
+      castling,
+      check,
+      enPassant: false,
+      annotation,
+      nag: annotation ? ANNOTATION_NAGS[annotation] : undefined,
+    }
+  }
+
+  const piece = (groups.piece || 'P') as SanPiece
+  const capture = !!(groups.pieceCapture || groups.pawnCapture)
+  const to = groups.pieceTo || groups.pawnTo
+  const from = groups.piece ? groups.from || undefined : groups.pawnFrom
+  const promotion = groups.promotion as SanMove['promotion']
+
+  // Only pawns reaching the last rank promote; a missing promotion piece is left to the validator
+  if (promotion && !/[18]$/.test(to)) return null
+
+  const san = piece === 'P'
+    ? `${capture ? `${from}x` : ''}${to}${promotion ? `=${promotion}` : ''}${suffix}`
+    : `${piece}${from || ''}${capture ? 'x' : ''}${to}${suffix}`
+
+  return {
+    san,
+    piece,
+    from,
+    to,
+    capture,
+    promotion,
+    check,
+    enPassant: !!groups.enPassant,
+    annotation,
+    nag: annotation ? ANNOTATION_NAGS[annotation] : undefined,
+  }
+}
+
+/**
+ * Rewrite a token in canonical SAN, keeping its annotation glyph ("e8Q!" → "e8=Q!")
+ * Tokens that are not well-formed moves are returned unchanged for later correction.
+ */
+export function normalizeSan(text: string): string {
+  const trimmed = text.trim()
+  const move = parseSan(trimmed)
+  return move ? `${move.san}${move.annotation || ''}` : trimmed
+}
+
+/**
+ * Split a token into the move and its annotation glyph as a NAG ("Nf3!?" → Nf3, 5)
+ */
+export function splitAnnotation(text: string): { move: string; nag?: number } {
+  const move = parseSan(text)
+  if (move) return { move: move.san, nag: move.nag }
+
+  const glyph = text.trim().match(/(!!|\?\?|!\?|\?!|!|\?)$/)
+  return glyph
+    ? { move: text.trim().slice(0, -glyph[1].length), nag: ANNOTATION_NAGS[glyph[1]] }
+    : { move: text.trim() }
+}
+
+/**
+ * Find moves after move numbers ("1. e4 e5 2.Nf3"), normalised, or null if there are none
+ */
+export function matchNumberedMoves(text: string): string[] | null {
+  const pattern = new RegExp(NUMBERED_MOVES_PATTERN.source, 'gi')
+  const cleaned = text.replace(EN_PASSANT_PATTERN, '')
+  const moves: string[] = []
+
+  let match: RegExpExecArray | null
+  let found = false
+  while ((match = pattern.exec(cleaned)) !== null) {
+    found = true
+    moves.push(
+      ...match[1]
+        .replace(/^\d+\.*\s*/, '')
+        .trim()
+        .split(/\s+/)
+        .filter(part => part.length > 0 && !GAME_RESULT_PATTERN.test(part))
+        .map(normalizeSan)
+    )
+  }
+
+  return found ? moves : null
+}
+
+/**
+ * Find well-formed moves anywhere in the text, normalised, or null if there are none
+ */
+export function matchStandaloneMoves(text: string): string[] | null {
+  const pattern = new RegExp(SAN_SCAN_SOURCE, 'gi')
+  const moves: string[] = []
+
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    if (GAME_RESULT_PATTERN.test(match[2])) continue
+    moves.push(normalizeSan(match[2].replace(EN_PASSANT_PATTERN, '')))
+  }
+
+  return moves.length > 0 ? moves : null
+}
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { OcrCell, OcrLine, OcrPage } from '../ocr/document'
+import { analyzeTableLayout } from './layout'
+import { findTemplate, isInRegion, matchTemplate } from './templates'
+
+function cell(row: number, column: number, text: string): OcrCell {
+  return { text, confidence: 99, words: [], row, column, rowSpan: 1, columnSpan: 1 }
+}
+
+function line(text: string): OcrLine {
+  return { text, confidence: 99, words: [] }
+}
+
+// An empty move grid: `blocks` blocks of number, white and black columns
+function grid(blocks: number, rows: number): OcrCell[] {
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: blocks * 3 }, (_, column) => cell(row + 1, column + 1, ''))).flat()
+}
+
+describe('matchTemplate', () => {
+  it('matches a sheet by its printed keywords', () => {
+    const page: OcrPage = {
+      words: [],
+      lines: ['FIDE', 'Event: Club Championship', 'Round 3', 'Board 12', 'Signature'].map(line),
+      tables: [],
+    }
+
+    assert.equal(matchTemplate(page)?.template.id, 'fide')
+  })
+
+  it('matches the table shape with half of the keywords', () => {
+    const page: OcrPage = {
+      words: [],
+      lines: ['Club', 'Game no', 'White'].map(line),
+      tables: [{ cells: grid(3, 21) }],
+    }
+
+    assert.equal(matchTemplate(page)?.template.id, 'club')
+  })
+
+  it('reads a sheet that fits no template generically', () => {
+    const page: OcrPage = { words: [], lines: ['1. e4 e5 2. Nf3 d6'].map(line), tables: [{ cells: grid(1, 10) }] }
+
+    assert.equal(matchTemplate(page), null)
+  })
+})
+
+describe('isInRegion', () => {
+  it('tests the centre of a box', () => {
+    const region = { left: 0, top: 0.1, width: 0.5, height: 0.05 }
+
+    assert.equal(isInRegion({ box: { left: 0.1, top: 0.11, width: 0.2, height: 0.02 } }, region), true)
+    assert.equal(isInRegion({ box: { left: 0.4, top: 0.11, width: 0.3, height: 0.02 } }, region), false)
+    assert.equal(isInRegion({}, region), false)
+  })
+})
+
+describe('template grids', () => {
+  it('give unnumbered blocks their first moves', () => {
+    const fide = findTemplate('fide')!
+    const cells = grid(2, 30)
+    const write = (row: number, column: number, text: string) => {
+      cells.find(item => item.row === row && item.column === column)!.text = text
+    }
+    write(1, 2, 'e4')
+    write(1, 3, 'e5')
+    write(1, 5, 'Qb8+')
+    write(1, 6, 'Nxb8')
+    const { layout, rows } = analyzeTableLayout({ words: [], lines: [], tables: [{ cells }] }, fide)
+
+    assert.deepEqual(layout.firstMoves, [1, 31])
+    assert.deepEqual(rows.map(row => row.map(item => item.text).join(' ')), ['e4 e5', 'Qb8+ Nxb8'])
+  })
+})
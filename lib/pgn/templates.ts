@@ -0,0 +1,182 @@
+/**
+ * Known score-sheet designs and how to read them
+ *
+ * Each template describes where the header fields are written, how the move grid is
+ * laid out (columns per block, blocks per page, moves per block) and where the result
+ * and signatures sit. A sheet is matched to a template by its printed keywords and
+ * the shape of its move table; sheets that match none are read with the generic
+ * heuristics of ./parser and ./layout.
+ *
+ * Regions are fractions of the page, like OCR boxes (see ../ocr/document).
+ *
+ * Shared by the browser and the S3 trigger Lambda (see scripts/build-lambda-shared.js).
+ */
+
+import type { OcrBox, OcrPage } from '../ocr/document'
+import type { MetadataField } from './parser'
+
+export interface SheetRegion {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export type GridColumn = 'number' | 'white' | 'black'
+
+export interface TemplateHeaderField {
+  field: MetadataField
+  // Label printed in front of the value
+  label: RegExp
+  // Where the label and the handwritten value sit
+  region: SheetRegion
+}
+
+export interface ScoreSheetTemplate {
+  id: string
+  name: string
+  // Printed words that identify the design
+  keywords: RegExp[]
+  header: TemplateHeaderField[]
+  grid: {
+    // Columns of one block, left to right
+    columns: GridColumn[]
+    blocks: number
+    movesPerBlock: number
+  }
+  // Where the result is written; printed choices ("1-0 ½-½ 0-1") are not a result
+  result: SheetRegion
+  // Signature boxes, never read as header text
+  signatures: SheetRegion[]
+}
+
+export interface TemplateMatch {
+  template: ScoreSheetTemplate
+  // 0-1: share of keywords found, weighted with whether the table has the template's shape
+  score: number
+}
+
+const NUMBER_WHITE_BLACK: GridColumn[] = ['number', 'white', 'black']
+
+export const SCORE_SHEET_TEMPLATES: ScoreSheetTemplate[] = [
+  {
+    id: 'fide',
+    name: 'FIDE standard',
+    keywords: [/\bFIDE\b/, /\bevent\b/i, /\bround\b/i, /\bboard\b/i, /\bsignature/i],
+    header: [
+      { field: 'event', label: /^event\b/i, region: { left: 0, top: 0.04, width: 0.65, height: 0.05 } },
+      { field: 'date', label: /^date\b/i, region: { left: 0.65, top: 0.04, width: 0.35, height: 0.05 } },
+      { field: 'round', label: /^round\b/i, region: { left: 0, top: 0.09, width: 0.5, height: 0.04 } },
+      { field: 'board', label: /^board\b/i, region: { left: 0.5, top: 0.09, width: 0.5, height: 0.04 } },
+      { field: 'whitePlayer', label: /^white\b/i, region: { left: 0, top: 0.13, width: 0.5, height: 0.05 } },
+      { field: 'blackPlayer', label: /^black\b/i, region: { left: 0.5, top: 0.13, width: 0.5, height: 0.05 } },
+    ],
+    grid: { columns: NUMBER_WHITE_BLACK, blocks: 2, movesPerBlock: 30 },
+    result: { left: 0.3, top: 0.86, width: 0.4, height: 0.05 },
+    signatures: [
+      { left: 0, top: 0.91, width: 0.5, height: 0.08 },
+      { left: 0.5, top: 0.91, width: 0.5, height: 0.08 },
+    ],
+  },
+  {
+    id: 'us-chess',
+    name: 'US Chess',
+    keywords: [/\bUS\s?Chess\b|\bUSCF\b/i, /\bsection\b/i, /\brd\b/i, /\bbd\b/i, /\bopening\b/i],
+    header: [
+      { field: 'event', label: /^(event|tournament)\b/i, region: { left: 0, top: 0.05, width: 0.7, height: 0.05 } },
+      { field: 'date', label: /^date\b/i, region: { left: 0.7, top: 0.05, width: 0.3, height: 0.05 } },
+      { field: 'round', label: /^(round|rd)\b\.?/i, region: { left: 0, top: 0.1, width: 0.35, height: 0.04 } },
+      { field: 'board', label: /^(board|bd)\b\.?/i, region: { left: 0.35, top: 0.1, width: 0.3, height: 0.04 } },
+      { field: 'whitePlayer', label: /^white\b/i, region: { left: 0, top: 0.14, width: 0.5, height: 0.05 } },
+      { field: 'blackPlayer', label: /^black\b/i, region: { left: 0.5, top: 0.14, width: 0.5, height: 0.05 } },
+    ],
+    grid: { columns: NUMBER_WHITE_BLACK, blocks: 2, movesPerBlock: 30 },
+    result: { left: 0, top: 0.87, width: 1, height: 0.04 },
+    signatures: [{ left: 0, top: 0.92, width: 1, height: 0.07 }],
+  },
+  {
+    id: 'club',
+    name: 'Club sheet',
+    keywords: [/\bclub\b/i, /\bgame\s?(no\b|#)/i, /\bteam\b/i, /\bwhite\b/i, /\bblack\b/i],
+    header: [
+      { field: 'event', label: /^(event|club)\b/i, region: { left: 0, top: 0.03, width: 0.6, height: 0.05 } },
+      { field: 'date', label: /^date\b/i, region: { left: 0.6, top: 0.03, width: 0.4, height: 0.05 } },
+      { field: 'round', label: /^round\b/i, region: { left: 0, top: 0.08, width: 0.5, height: 0.04 } },
+      { field: 'whitePlayer', label: /^white\b/i, region: { left: 0, top: 0.12, width: 0.5, height: 0.05 } },
+      { field: 'blackPlayer', label: /^black\b/i, region: { left: 0.5, top: 0.12, width: 0.5, height: 0.05 } },
+    ],
+    grid: { columns: NUMBER_WHITE_BLACK, blocks: 3, movesPerBlock: 20 },
+    result: { left: 0.5, top: 0.88, width: 0.5, height: 0.05 },
+    signatures: [{ left: 0, top: 0.93, width: 1, height: 0.06 }],
+  },
+  {
+    id: 'chess-com',
+    name: 'Chess.com printable',
+    keywords: [/\bchess\.com\b/i, /\bwhite\b/i, /\bblack\b/i, /\bdate\b/i],
+    header: [
+      { field: 'whitePlayer', label: /^white\b/i, region: { left: 0, top: 0.08, width: 0.5, height: 0.05 } },
+      { field: 'blackPlayer', label: /^black\b/i, region: { left: 0.5, top: 0.08, width: 0.5, height: 0.05 } },
+      { field: 'event', label: /^event\b/i, region: { left: 0, top: 0.13, width: 0.6, height: 0.04 } },
+      { field: 'date', label: /^date\b/i, region: { left: 0.6, top: 0.13, width: 0.4, height: 0.04 } },
+    ],
+    grid: { columns: NUMBER_WHITE_BLACK, blocks: 2, movesPerBlock: 40 },
+    result: { left: 0, top: 0.9, width: 1, height: 0.05 },
+    signatures: [],
+  },
+]
+
+// Weight of the keywords against the table shape, and the score a match needs:
+// the keywords alone, or the shape with half of the keywords
+const KEYWORD_WEIGHT = 0.6
+const SHAPE_WEIGHT = 0.4
+const MIN_MATCH_SCORE = 0.6
+// Rows above the moves that a grid may have (column titles, a header line)
+const GRID_HEADER_ROWS = 3
+
+export function findTemplate(id: string): ScoreSheetTemplate | undefined {
+  return SCORE_SHEET_TEMPLATES.find(template => template.id === id)
+}
+
+/**
+ * Whether the centre of a word, line or cell lies in a region
+ */
+export function isInRegion(item: { box?: OcrBox }, region: SheetRegion): boolean {
+  const box = item.box
+  if (!box) return false
+  const x = box.left + box.width / 2
+  const y = box.top + box.height / 2
+  return x >= region.left && x <= region.left + region.width && y >= region.top && y <= region.top + region.height
+}
+
+// Columns across all tables, and rows of the tallest one
+function tableShape(page: OcrPage): { columns: number; rows: number } | null {
+  const cells = page.tables.flatMap((table, index) => table.cells.map(cell => ({ table: index, cell })))
+  if (cells.length === 0) return null
+
+  const columns = new Set(cells.map(({ table, cell }) => `${table}:${cell.column}`))
+  const rows = Math.max(...cells.map(({ cell }) => cell.row + cell.rowSpan - 1))
+  return { columns: columns.size, rows }
+}
+
+/**
+ * Find the template a sheet was printed from, or null to read it generically
+ */
+export function matchTemplate(page: OcrPage): TemplateMatch | null {
+  const text = [...page.lines, ...page.words, ...page.tables.flatMap(table => table.cells)]
+    .map(item => item.text)
+    .join(' ')
+  const shape = tableShape(page)
+
+  let best: TemplateMatch | null = null
+  SCORE_SHEET_TEMPLATES.forEach(template => {
+    const { columns, blocks: gridBlocks, movesPerBlock } = template.grid
+    const keywordShare = template.keywords.filter(keyword => keyword.test(text)).length / template.keywords.length
+    const shapeFits = !!shape &&
+      shape.columns === columns.length * gridBlocks &&
+      shape.rows >= movesPerBlock &&
+      shape.rows <= movesPerBlock + GRID_HEADER_ROWS
+    const score = keywordShare * KEYWORD_WEIGHT + (shapeFits ? SHAPE_WEIGHT : 0)
+    if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) best = { template, score }
+  })
+  return best
+}
@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+/**
+ * Build Shared Lambda Modules
+ *
+ * The S3 trigger Lambda is plain CommonJS, but some chess logic is shared with the
+ * browser and lives in TypeScript under lib/. This script transpiles those modules
+ * into the Lambda source folder so they are packaged with the function.
+ *
+ * Amplify runs it automatically before `amplify push` through the
+ * `amplify:S3Triggerc8c93dc4` script in package.json.
+ *
+ * Usage:
+ *   node scripts/build-lambda-shared.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const OUT_DIR = path.join(ROOT, 'amplify/backend/function/S3Triggerc8c93dc4/src/shared');
+
+// Modules shared with the Lambda; they may only import packages the Lambda also depends on
+const SHARED_MODULES = [
+  'lib/pgn/san.ts',
+  'lib/pgn/notation.ts',
+  'lib/pgn/descriptive.ts',
+  'lib/pgn/long-algebraic.ts',
+  'lib/pgn/templates.ts',
+  'lib/pgn/layout.ts',
+  'lib/pgn/reconstruction.ts',
+  'lib/pgn/parser.ts',
+  'lib/ocr/blocks.ts',
+  'lib/jobs/errors.ts',
+];
+
+function build() {
+  fs.mkdirSync(OUT_DIR, { recursive: true });
+
+  for (const modulePath of SHARED_MODULES) {
+    const source = fs.readFileSync(path.join(ROOT, modulePath), 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      fileName: modulePath,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+        esModuleInterop: true,
+      },
+    });
+
+    const outFile = path.join(OUT_DIR, `${path.basename(modulePath, '.ts')}.js`);
+    fs.writeFileSync(outFile, `// Generated from ${modulePath} by scripts/build-lambda-shared.js. Do not edit.\n${outputText}`);
+    console.log(`✅ ${modulePath} → ${path.relative(ROOT, outFile)}`);
+  }
+}
+
+build();
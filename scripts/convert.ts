@@ -0,0 +1,275 @@
+/**
+ * Score Sheet Converter
+ *
+ * Converts score sheets from the command line with the same parser, move validation and
+ * PGN writer as the convert page, so a whole round can be converted in one go.
+ * Takes photos of score sheets, read with Textract (or Tesseract with --ocr tesseract),
+ * and saved Textract responses (.json), including the Lambda's results files.
+ *
+ * Usage:
+ *   npm run convert -- [options] <sheet...>
+ *
+ * Options:
+ *   --language <code>     Piece-letter language: en, de, fr, es, nl or it (detected by default)
+ *   --system <name>       algebraic or descriptive (detected by default)
+ *   --template <id>       Score sheet template, or none for the generic layout (matched by default)
+ *   --strictness <level>  strict, normal (default) or lenient
+ *   --ocr <engine>        textract (default) or tesseract, for images
+ *   --format <format>     pgn (default) or json
+ *   --out <file>          Write every game to one file instead of stdout
+ *   --out-dir <dir>       Write one file per sheet
+ *   --list-templates      List the template ids and exit
+ *
+ * Strictness:
+ *   strict   every move must be legal as written; nothing is corrected
+ *   normal   OCR misreadings are corrected; a sheet with a move that cannot be corrected fails
+ *   lenient  as normal, but the game is cut at the first move that cannot be corrected
+ *
+ * Exits with status 1 when any sheet fails.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { parseScoreSheet, type ParseOptions, type ParsedChessGame } from '../lib/pgn/parser'
+import { convertToPGN, convertToPGNDatabase, decidedResult, validatePGN } from '../lib/pgn/converter'
+import { reconstructGame } from '../lib/pgn/reconstruction'
+import { NOTATION_LANGUAGES, type NotationLanguage } from '../lib/pgn/notation'
+import { SCORE_SHEET_TEMPLATES, findTemplate } from '../lib/pgn/templates'
+import { loadOcrProvider, type OcrDocument, type OcrPage, type OcrProviderName } from '../lib/ocr/document'
+import { fromTextract } from '../lib/ocr/blocks'
+
+type Strictness = 'strict' | 'normal' | 'lenient'
+
+interface CliOptions {
+  files: string[]
+  parse: ParseOptions
+  strictness: Strictness
+  ocr: OcrProviderName
+  format: 'pgn' | 'json'
+  out?: string
+  outDir?: string
+}
+
+interface SheetConversion {
+  file: string
+  game?: ParsedChessGame
+  pgn?: string
+  // Moves changed from what the OCR read, by ply (0-based)
+  corrections: Array<{ ply: number; original: string; corrected: string }>
+  // Ply the game was cut at (lenient), with the text that could not be read as a move
+  truncatedAt?: { ply: number; original: string }
+  // PGN problems let through in lenient mode
+  warnings: string[]
+  error?: string
+}
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp', '.tif', '.tiff']
+
+function usage(message: string): never {
+  console.error(`❌ ${message}`)
+  console.error('   Usage: npm run convert -- [--language <code>] [--system <name>] [--template <id|none>] [--strictness <level>] [--ocr <engine>] [--format pgn|json] [--out <file> | --out-dir <dir>] <sheet...>')
+  process.exit(1)
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { files: [], parse: {}, strictness: 'normal', ocr: 'textract', format: 'pgn' }
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    const value = () => args[++i] ?? usage(`${arg} needs a value`)
+    switch (arg) {
+      case '--language': {
+        const language = value()
+        if (!(language in NOTATION_LANGUAGES)) usage(`Unknown language "${language}" (${Object.keys(NOTATION_LANGUAGES).join(', ')})`)
+        options.parse.language = language as NotationLanguage
+        break
+      }
+      case '--system': {
+        const system = value()
+        if (system !== 'algebraic' && system !== 'descriptive') usage(`Unknown notation system "${system}" (algebraic, descriptive)`)
+        options.parse.system = system
+        break
+      }
+      case '--template': {
+        const template = value()
+        if (template !== 'none' && !findTemplate(template)) usage(`Unknown template "${template}" (see --list-templates)`)
+        options.parse.template = template === 'none' ? null : template
+        break
+      }
+      case '--strictness': {
+        const strictness = value()
+        if (!['strict', 'normal', 'lenient'].includes(strictness)) usage(`Unknown strictness "${strictness}" (strict, normal, lenient)`)
+        options.strictness = strictness as Strictness
+        break
+      }
+      case '--ocr': {
+        const ocr = value()
+        if (ocr !== 'textract' && ocr !== 'tesseract') usage(`Unknown OCR engine "${ocr}" (textract, tesseract)`)
+        options.ocr = ocr
+        break
+      }
+      case '--format': {
+        const format = value()
+        if (format !== 'pgn' && format !== 'json') usage(`Unknown format "${format}" (pgn, json)`)
+        options.format = format
+        break
+      }
+      case '--out':
+        options.out = value()
+        break
+      case '--out-dir':
+        options.outDir = value()
+        break
+      case '--list-templates':
+        SCORE_SHEET_TEMPLATES.forEach(template => console.log(`${template.id}\t${template.name}`))
+        process.exit(0)
+      default:
+        if (arg.startsWith('--')) usage(`Unknown option ${arg}`)
+        options.files.push(arg)
+    }
+  }
+
+  if (options.files.length === 0) usage('No score sheets given')
+  if (options.out && options.outDir) usage('Use either --out or --out-dir')
+  return options
+}
+
+/**
+ * OCR page of a sheet: read from a saved OCR document or Textract response, or OCR'd from an image
+ */
+async function readSheet(file: string, ocr: OcrProviderName): Promise<OcrPage> {
+  if (path.extname(file).toLowerCase() === '.json') {
+    const json = JSON.parse(fs.readFileSync(file, 'utf8'))
+    // A saved OCR document from any engine
+    if (Array.isArray(json.pages)) return firstPage(json as OcrDocument)
+    if (!Array.isArray(json.Blocks)) throw new Error('Not a Textract response (no Blocks)')
+    return firstPage(fromTextract({ Blocks: json.Blocks }))
+  }
+  if (!IMAGE_EXTENSIONS.includes(path.extname(file).toLowerCase())) {
+    throw new Error('Not an image or a Textract JSON file')
+  }
+
+  const provider = await loadOcrProvider(ocr)
+  return firstPage(await provider.recognize(new Uint8Array(fs.readFileSync(file))))
+}
+
+function firstPage(document: OcrDocument): OcrPage {
+  return document.pages[0] || { words: [], lines: [], tables: [] }
+}
+
+/**
+ * Read, validate and write one sheet as PGN
+ * Moves are checked on the board as one game, as the Lambda does (see reconstructGame).
+ */
+async function convertSheet(file: string, options: CliOptions): Promise<SheetConversion> {
+  const conversion: SheetConversion = { file, corrections: [], warnings: [] }
+  try {
+    const parsed = parseScoreSheet(await readSheet(file, options.ocr), options.parse)
+    if (parsed.moves.length === 0) throw new Error('No moves found on the sheet')
+
+    const { best } = reconstructGame(parsed.moves, {
+      confidences: (parsed.moveSources || []).map(source => source?.confidence),
+      allowRepairs: options.strictness !== 'strict',
+    })
+    const moves: string[] = []
+    for (const move of best.moves) {
+      if (move.repair === 'dropped-token') continue
+      const ply = moves.length
+      const unreadable = !move.valid || (options.strictness === 'strict' && move.corrected)
+      if (unreadable) {
+        if (options.strictness !== 'lenient') {
+          const asWritten = move.valid ? ' as written' : ''
+          throw new Error(`Move ${Math.floor(ply / 2) + 1}${ply % 2 === 0 ? '.' : '...'} "${move.original}" is not a legal move${asWritten}${move.error ? ` (${move.error})` : ''}`)
+        }
+        conversion.truncatedAt = { ply, original: move.original }
+        break
+      }
+      if (move.corrected || move.repair) conversion.corrections.push({ ply, original: move.original, corrected: move.move })
+      moves.push(move.move)
+    }
+
+    // A game cut short has no result
+    const result = conversion.truncatedAt ? '*' : parsed.metadata.result || decidedResult(moves)
+    const metadata = { ...parsed.metadata, ...(result ? { result } : {}) }
+    const game: ParsedChessGame = { ...parsed, moves, metadata }
+    const pgn = convertToPGN(game)
+    const check = validatePGN(pgn)
+    if (!check.valid) {
+      if (options.strictness !== 'lenient') throw new Error(check.errors.map(error => error.message).join('; '))
+      conversion.warnings = check.errors.map(error => error.message)
+    }
+
+    conversion.game = game
+    conversion.pgn = pgn
+  } catch (error: any) {
+    conversion.error = error.message || 'Conversion failed'
+  }
+  return conversion
+}
+
+function toJson(conversion: SheetConversion) {
+  return {
+    file: conversion.file,
+    ...(conversion.error ? { error: conversion.error } : {}),
+    ...(conversion.game ? {
+      metadata: conversion.game.metadata,
+      moves: conversion.game.moves,
+      notationLanguage: conversion.game.notationLanguage,
+      notationSystem: conversion.game.notationSystem,
+      template: conversion.game.template || null,
+      pgn: conversion.pgn,
+    } : {}),
+    corrections: conversion.corrections,
+    ...(conversion.truncatedAt ? { truncatedAt: conversion.truncatedAt } : {}),
+    ...(conversion.warnings.length > 0 ? { warnings: conversion.warnings } : {}),
+  }
+}
+
+function writeOutput(conversions: SheetConversion[], options: CliOptions) {
+  const converted = conversions.filter(conversion => conversion.game)
+
+  if (options.outDir) {
+    fs.mkdirSync(options.outDir, { recursive: true })
+    for (const conversion of options.format === 'json' ? conversions : converted) {
+      const name = path.basename(conversion.file, path.extname(conversion.file))
+      const outFile = path.join(options.outDir, `${name}.${options.format}`)
+      fs.writeFileSync(outFile, options.format === 'json' ? `${JSON.stringify(toJson(conversion), null, 2)}\n` : conversion.pgn!)
+    }
+    return
+  }
+
+  const output = options.format === 'json'
+    ? `${JSON.stringify(conversions.map(toJson), null, 2)}\n`
+    : convertToPGNDatabase(converted.map(conversion => conversion.game!))
+  if (options.out) fs.writeFileSync(options.out, output)
+  else process.stdout.write(output)
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const conversions: SheetConversion[] = []
+
+  // One sheet at a time: OCR engines are heavy and Textract has a request rate limit
+  for (const file of options.files) {
+    const conversion = await convertSheet(file, options)
+    conversions.push(conversion)
+    if (conversion.error) {
+      console.error(`❌ ${file}: ${conversion.error}`)
+    } else {
+      const notes = [
+        `${conversion.game!.moves.length} half-moves`,
+        conversion.corrections.length > 0 ? `${conversion.corrections.length} corrected` : '',
+        conversion.truncatedAt ? `cut at "${conversion.truncatedAt.original}"` : '',
+        ...conversion.warnings,
+      ].filter(Boolean)
+      console.error(`✅ ${file}: ${notes.join(', ')}`)
+    }
+  }
+
+  writeOutput(conversions, options)
+  process.exit(conversions.some(conversion => conversion.error) ? 1 : 0)
+}
+
+main().catch(error => {
+  console.error('❌ Error:', error.message)
+  process.exit(1)
+})
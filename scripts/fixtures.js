@@ -0,0 +1,312 @@
+#!/usr/bin/env node
+
+/**
+ * Score Sheet Fixtures
+ *
+ * Replays recorded Textract responses through the whole pipeline offline: the parser
+ * (lib/pgn/parser.ts), the Lambda's validator (correctOCRErrors) and the PGN converter.
+ * The moves are scored against the known-correct PGN of each sheet, so changes to move
+ * extraction or OCR correction can be checked without uploading a photo.
+ *
+ * Fixtures live in fixtures/scoresheets as pairs: <name>.json, a Textract response as the
+ * Lambda saves it under results/, and <name>.pgn, the game as played. Fixtures named
+ * synthetic-* were built by hand rather than recorded from a photo; they keep the replay
+ * working but say little about accuracy on real handwriting. Each run is compared
+ * with the one before it (fixtures/scoresheets/.last-run.json) and exits with status 1
+ * when a move that was read right before is now read wrong.
+ *
+ * Usage:
+ *   node scripts/fixtures.js
+ *   node scripts/fixtures.js --only <name>
+ *   node scripts/fixtures.js --no-save
+ *   node scripts/fixtures.js --record <upload key | results.json> <game.pgn> [--name <name>]
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { execFileSync } = require('child_process');
+const ts = require('typescript');
+const { Chess } = require('chess.js');
+
+const ROOT = path.join(__dirname, '..');
+const FIXTURES_DIR = path.join(ROOT, 'fixtures/scoresheets');
+const LAST_RUN_FILE = path.join(FIXTURES_DIR, '.last-run.json');
+const SYNTHETIC_PREFIX = 'synthetic-';
+
+const REGION = process.env.NEXT_PUBLIC_AWS_REGION || process.env.AWS_REGION || 'ap-south-1';
+const BUCKET_NAME = process.env.NEXT_PUBLIC_AWS_S3_BUCKET || process.env.AWS_S3_BUCKET;
+
+// Load lib/ TypeScript as CommonJS on the fly, as build-lambda-shared.js does for the Lambda
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+    },
+  });
+  module._compile(outputText, filename);
+};
+
+function loadPipeline() {
+  // The validator requires the shared modules transpiled into the Lambda source folder
+  execFileSync(process.execPath, [path.join(__dirname, 'build-lambda-shared.js')], { stdio: 'ignore' });
+
+  const { fromTextract } = require('../lib/ocr/blocks.ts');
+  const { parseScoreSheet } = require('../lib/pgn/parser.ts');
+  const { convertToPGN, decidedResult, validatePGN } = require('../lib/pgn/converter.ts');
+  const { correctOCRErrors } = require('../amplify/backend/function/S3Triggerc8c93dc4/src/chess-validator');
+  return { fromTextract, parseScoreSheet, convertToPGN, decidedResult, validatePGN, correctOCRErrors };
+}
+
+function readExpectedMoves(pgnFile) {
+  const chess = new Chess();
+  chess.loadPgn(fs.readFileSync(pgnFile, 'utf8'));
+  return chess.history();
+}
+
+// Check and mate signs and annotations do not make a move wrong
+function normalizeMove(move) {
+  return String(move || '').replace(/[+#!?]/g, '').replace(/0/g, 'O').trim();
+}
+
+/**
+ * Pair read moves with the moves played, in order, matching as many as possible
+ * (longest common subsequence), so a dropped or extra move does not shift every
+ * move after it out of place.
+ *
+ * @returns {Map<number, number>} index of each read move that is right → index of the played move
+ */
+function alignMoves(read, expected) {
+  const a = read.map(normalizeMove);
+  const b = expected.map(normalizeMove);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Map();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches.set(i++, j++);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function describePly(ply, move) {
+  const number = Math.floor(ply / 2) + 1;
+  return ply % 2 === 0 ? `${number}. ${move}` : `${number}... ${move}`;
+}
+
+function percent(part, whole) {
+  return whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '—';
+}
+
+function runFixture(pipeline, name) {
+  const response = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'));
+  const blocks = response.Blocks || [];
+  const expected = readExpectedMoves(path.join(FIXTURES_DIR, `${name}.pgn`));
+
+  // The parser and validator log their progress for CloudWatch; keep the report readable
+  const log = console.log;
+  console.log = () => {};
+  let parsed;
+  let validation;
+  try {
+    parsed = pipeline.parseScoreSheet(pipeline.fromTextract({ Blocks: blocks }).pages[0]);
+    validation = pipeline.correctOCRErrors(blocks);
+  } finally {
+    console.log = log;
+  }
+  // A sheet without a written result takes the one its final position decides, as the CLI does
+  const result = parsed.metadata.result || pipeline.decidedResult(validation.correctedMoves);
+  const pgn = pipeline.convertToPGN({ ...parsed, moves: validation.correctedMoves, metadata: { ...parsed.metadata, result } });
+  const pgnCheck = pipeline.validatePGN(pgn);
+
+  const matches = alignMoves(validation.correctedMoves, expected);
+  const ocrMatches = alignMoves(validation.originalMoves, expected);
+  const madeCorrections = validation.corrections.filter(correction => correction.corrected);
+  const rightCorrections = madeCorrections.filter(correction => matches.has(correction.index));
+
+  return {
+    plies: expected.length,
+    read: validation.correctedMoves.length,
+    ocrCorrect: ocrMatches.size,
+    // Plies of the game as played that were read right
+    correct: Array.from(matches.values()).sort((a, b) => a - b),
+    corrections: madeCorrections.length,
+    rightCorrections: rightCorrections.length,
+    unresolved: validation.corrections.length - madeCorrections.length,
+    pgnError: pgnCheck.valid ? null : pgnCheck.errors[0].message,
+    expected,
+    readMoves: validation.correctedMoves,
+    matches,
+  };
+}
+
+function listFixtures(only) {
+  if (!fs.existsSync(FIXTURES_DIR)) return [];
+  const names = fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json') && !file.startsWith('.'))
+    .map(file => path.basename(file, '.json'))
+    .filter(name => fs.existsSync(path.join(FIXTURES_DIR, `${name}.pgn`)))
+    .sort();
+  return only ? names.filter(name => name === only) : names;
+}
+
+function runAll({ only, save }) {
+  const names = listFixtures(only);
+  if (names.length === 0) {
+    console.error(`❌ No fixtures found in ${path.relative(ROOT, FIXTURES_DIR)}${only ? ` named ${only}` : ''}`);
+    process.exit(1);
+  }
+
+  const previous = fs.existsSync(LAST_RUN_FILE) ? JSON.parse(fs.readFileSync(LAST_RUN_FILE, 'utf8')) : null;
+  const pipeline = loadPipeline();
+  const run = { date: new Date().toISOString(), fixtures: {} };
+  const totals = { plies: 0, ocrCorrect: 0, correct: 0, corrections: 0, rightCorrections: 0, unresolved: 0 };
+  const regressions = [];
+
+  console.log(`♟️ Replaying ${names.length} ${names.length === 1 ? 'fixture' : 'fixtures'}\n`);
+
+  for (const name of names) {
+    let result;
+    try {
+      result = runFixture(pipeline, name);
+    } catch (error) {
+      console.log(`❌ ${name}: ${error.message}`);
+      if (previous?.fixtures[name]) regressions.push(`${name}: failed to run (${error.message})`);
+      continue;
+    }
+
+    totals.plies += result.plies;
+    totals.ocrCorrect += result.ocrCorrect;
+    totals.correct += result.correct.length;
+    totals.corrections += result.corrections;
+    totals.rightCorrections += result.rightCorrections;
+    totals.unresolved += result.unresolved;
+
+    console.log(
+      `${result.correct.length === result.plies ? '✅' : '⚠️ '} ${name}: ` +
+      `${result.correct.length}/${result.plies} moves (${percent(result.correct.length, result.plies)}), ` +
+      `OCR alone ${percent(result.ocrCorrect, result.plies)}, ` +
+      `corrections ${result.rightCorrections}/${result.corrections} right` +
+      (result.unresolved > 0 ? `, ${result.unresolved} unresolved` : '') +
+      (result.pgnError ? `, PGN: ${result.pgnError}` : '')
+    );
+
+    // A ply read right in the previous run and not in this one is a regression
+    const before = previous?.fixtures[name];
+    if (before) {
+      const now = new Set(result.correct);
+      const readAs = new Map(Array.from(result.matches, ([readIndex, ply]) => [ply, result.readMoves[readIndex]]));
+      before.correct
+        .filter(ply => !now.has(ply))
+        .forEach(ply => {
+          regressions.push(`${name}: ${describePly(ply, result.expected[ply])} is no longer read right${readAs.has(ply) ? ` (read as ${readAs.get(ply)})` : ''}`);
+        });
+    }
+
+    run.fixtures[name] = {
+      plies: result.plies,
+      correct: result.correct,
+      accuracy: result.plies > 0 ? result.correct.length / result.plies : 0,
+      corrections: result.corrections,
+      rightCorrections: result.rightCorrections,
+    };
+  }
+
+  console.log('\n📊 Summary:');
+  console.log(`   Move accuracy:        ${percent(totals.correct, totals.plies)} (${totals.correct}/${totals.plies})`);
+  console.log(`   OCR alone:            ${percent(totals.ocrCorrect, totals.plies)}`);
+  console.log(`   Correction precision: ${percent(totals.rightCorrections, totals.corrections)} (${totals.rightCorrections}/${totals.corrections})`);
+  console.log(`   Unresolved moves:     ${totals.unresolved}`);
+  if (names.every(name => name.startsWith(SYNTHETIC_PREFIX))) {
+    console.log('   ⚠️  Only hand-built fixtures were replayed; record real sheets with npm run fixtures:record');
+  }
+
+  if (previous) {
+    const previousTotals = Object.entries(previous.fixtures)
+      .filter(([name]) => run.fixtures[name])
+      .reduce((sum, [, fixture]) => ({ plies: sum.plies + fixture.plies, correct: sum.correct + fixture.correct.length }), { plies: 0, correct: 0 });
+    console.log(`   Previous run:         ${percent(previousTotals.correct, previousTotals.plies)} on the same fixtures (${previous.date})`);
+  }
+
+  if (regressions.length > 0) {
+    console.log(`\n❌ ${regressions.length} ${regressions.length === 1 ? 'regression' : 'regressions'} since the previous run:`);
+    regressions.forEach(regression => console.log(`   - ${regression}`));
+  } else if (previous) {
+    console.log('\n✅ No regressions since the previous run');
+  }
+
+  // A partial run only updates the fixtures it replayed
+  if (save) {
+    const saved = only && previous ? { ...run, fixtures: { ...previous.fixtures, ...run.fixtures } } : run;
+    fs.writeFileSync(LAST_RUN_FILE, `${JSON.stringify(saved, null, 2)}\n`);
+  }
+
+  process.exit(regressions.length > 0 ? 1 : 0);
+}
+
+async function fetchResults(key) {
+  if (!BUCKET_NAME) {
+    console.error('❌ Error: BUCKET_NAME not set. Please set NEXT_PUBLIC_AWS_S3_BUCKET or AWS_S3_BUCKET environment variable.');
+    process.exit(1);
+  }
+  const { S3Client, GetObjectCommand } = require('@aws-sdk/client-s3');
+  const s3Client = new S3Client({ region: REGION });
+  // The Lambda saves results under public/, as Amplify Storage reads them
+  const response = await s3Client.send(new GetObjectCommand({ Bucket: BUCKET_NAME, Key: `public/results/${key}.json` }));
+  return JSON.parse(await response.Body.transformToString());
+}
+
+/**
+ * Save a Textract response and the game as played as a new fixture
+ * The response is read from a local results file, or from the bucket by upload key.
+ */
+async function record(source, pgnFile, name) {
+  if (!source || !pgnFile) {
+    console.error('❌ Usage: node scripts/fixtures.js --record <upload key | results.json> <game.pgn> [--name <name>]');
+    process.exit(1);
+  }
+
+  const moves = readExpectedMoves(pgnFile);
+  const response = fs.existsSync(source) ? JSON.parse(fs.readFileSync(source, 'utf8')) : await fetchResults(source);
+  if (!Array.isArray(response.Blocks)) {
+    console.error(`❌ ${source} is not a Textract response (no Blocks)`);
+    process.exit(1);
+  }
+
+  const fixtureName = name || path.basename(source).replace(/\.json$/, '').replace(/\.[^.]+$/, '');
+  fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+  // Only the OCR is kept; the validator's output is what the fixtures check
+  fs.writeFileSync(path.join(FIXTURES_DIR, `${fixtureName}.json`), `${JSON.stringify({ Blocks: response.Blocks }, null, 2)}\n`);
+  fs.copyFileSync(pgnFile, path.join(FIXTURES_DIR, `${fixtureName}.pgn`));
+  console.log(`✅ Recorded ${fixtureName}: ${response.Blocks.length} blocks, ${moves.length} half-moves`);
+}
+
+const args = process.argv.slice(2);
+const option = flag => {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+if (args.includes('--record')) {
+  const index = args.indexOf('--record');
+  record(args[index + 1], args[index + 2], option('--name')).catch(error => {
+    console.error('❌ Error recording fixture:', error.message);
+    process.exit(1);
+  });
+} else {
+  runAll({ only: option('--only'), save: !args.includes('--no-save') });
+}